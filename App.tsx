@@ -1,140 +1,854 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { Product, ScanStage, Recipe } from './types';
-import { extractTextFromImage, suggestRecipesFromIngredients } from './services/geminiService';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Product, ExpiryStatus, ScanStage, Recipe, RecipePreferences, SavedRecipe, ShoppingListItem, AppSettings, ParsedExpiry, ExpiryLabelType, ProductEdit, StockDetails, StorageLocation, ScanMode, BatchItem, PendingExtraction, PantryEvent, RemovalOutcome } from './types';
+import { AiProvider } from './services/aiProvider';
+import { AiError, isAiError } from './services/aiErrors';
+import { parseExpiryText, parseIsoDate, needsConfirmation, LOW_CONFIDENCE_THRESHOLD } from './services/expiryParser';
+import { loadSettings, saveSettings } from './services/settingsService';
+import { getExpiryStatus, daysUntilExpiry, countByExpiryStatus } from './services/expiryStatus';
+import { PantryView, PantrySortOrder, PantryGrouping, DEFAULT_PANTRY_VIEW, filterPantry, groupPantry, pantryViewFromSearch, pantryViewToSearch, isFilteredView } from './services/pantryView';
+import { PantryRepository, imageIdFor } from './services/pantryRepository';
+import { dataUrlToBlob } from './services/imageUtils';
+import { diffProductEdits } from './services/productHistory';
+import { createScannedProduct, createPendingProduct, createManualProduct } from './services/productFactory';
+import { ProcessedImage, preprocessFile } from './services/imagePreprocessing';
+import { rankRecipesByExpiry } from './services/recipeRanking';
+import { RecipeBook, createSavedRecipe, findSavedRecipe } from './services/recipeBook';
+import { PantryLog, createPantryEvent } from './services/pantryLog';
+import { ShoppingList, ShoppingListEntry, ShoppingListFormat, formatShoppingList, parseIngredientLine, restockEntry, USED_UP_SOURCE, REMOVED_SOURCE } from './services/shoppingList';
+import { shareOrDownloadText, downloadTextFile } from './services/fileExport';
+import { planReminders, toExpiryCalendar } from './services/expiryReminders';
+import { scheduleReminders } from './services/reminderScheduler';
+import { createQueuedProduct, isAwaitingExtraction, processPendingExtractions } from './services/extractionQueue';
+import { loadRecipePreferences, saveRecipePreferences, excludeConflictingRecipes, describeRecipePreferences } from './services/recipePreferences';
+import { lookupBarcode, learnBarcode, listKnownProducts } from './services/productCatalog';
+import { DEFAULT_STOCK, getStock, consumeQuantity, listLocations, formatLocation, toPantryIngredients } from './services/pantryInventory';
 import CameraCapture from './components/CameraCapture';
 import ProductCard from './components/ProductCard';
+import PantryTable from './components/PantryTable';
 import Spinner from './components/Spinner';
 import RecipeModal from './components/RecipeModal';
+import SettingsModal from './components/SettingsModal';
+import ExpiryStatusSummary from './components/ExpiryStatusSummary';
+import { PantryRepositoryContext } from './components/PantryRepositoryContext';
+import { AiProviderContext } from './components/AiProviderContext';
+import ProductDetailsForm from './components/ProductDetailsForm';
+import ProductEditHistory from './components/ProductEditHistory';
+import StoredImage from './components/StoredImage';
+import BatchScanSession from './components/BatchScanSession';
+import ScanErrorRecovery from './components/ScanErrorRecovery';
+import RecipePreferencesModal from './components/RecipePreferencesModal';
+import RecipeBookModal from './components/RecipeBookModal';
+import CookRecipeDialog, { PantryUsage } from './components/CookRecipeDialog';
+import ShoppingListModal from './components/ShoppingListModal';
+import PantryBackupModal from './components/PantryBackupModal';
+import QuarantineNotice from './components/QuarantineNotice';
+import RemoveProductDialog from './components/RemoveProductDialog';
+import UseAmountDialog from './components/UseAmountDialog';
+import WasteAnalyticsModal from './components/WasteAnalyticsModal';
+import PhotoDropZone from './components/PhotoDropZone';
 
-const App: React.FC = () => {
+// An AI failure while reading one of the scan photos, kept with the photo so it can be retried or typed in
+interface ScanFailure {
+  step: 'single' | 'name' | 'expiry';
+  imageBase64: string;
+  error: AiError;
+}
+
+// Where "Cancel" on an analysis spinner goes back to
+const AWAITING_STAGE_FOR: Partial<Record<ScanStage, ScanStage>> = {
+  [ScanStage.PROCESSING_SINGLE_IMAGE]: ScanStage.AWAITING_SINGLE_IMAGE,
+  [ScanStage.PROCESSING_NAME_IMAGE]: ScanStage.AWAITING_NAME_IMAGE,
+  [ScanStage.PROCESSING_EXPIRY_IMAGE]: ScanStage.AWAITING_EXPIRY_IMAGE,
+};
+
+const MISSING_EXPIRY_MESSAGE = "Please enter the expiry date, or tick \"No expiry date\".";
+
+const SCAN_MODE_OPTIONS: { value: ScanMode; label: string }[] = [
+  { value: 'two-photo', label: 'Two photos' },
+  { value: 'single-photo', label: 'One photo' },
+];
+
+interface AppProps {
+  repository: PantryRepository;
+  aiProvider: AiProvider;
+  recipeBook: RecipeBook;
+  shoppingList: ShoppingList;
+  pantryLog: PantryLog;
+}
+
+const App: React.FC<AppProps> = ({ repository, aiProvider, recipeBook, shoppingList, pantryLog }) => {
   const [scanStage, setScanStage] = useState<ScanStage>(ScanStage.IDLE);
   const [products, setProducts] = useState<Product[]>([]);
+  // False until the first load, so an empty pantry can be told apart from one that hasn't loaded yet
+  const [hasLoadedProducts, setHasLoadedProducts] = useState<boolean>(false);
   
   const [currentNameImage, setCurrentNameImage] = useState<string | null>(null);
   const [currentExpiryImage, setCurrentExpiryImage] = useState<string | null>(null);
+  const [currentThumbnail, setCurrentThumbnail] = useState<string | null>(null); // From the first photo of the scan
   
   const [extractedName, setExtractedName] = useState<string>('');
   const [editedName, setEditedName] = useState<string>('');
 
-  const [extractedExpiry, setExtractedExpiry] = useState<string>('');
+  const [parsedExpiry, setParsedExpiry] = useState<ParsedExpiry | null>(null);
   const [editedExpiry, setEditedExpiry] = useState<string>('');
+  const [editedLabelType, setEditedLabelType] = useState<ExpiryLabelType>('unknown');
+  const [isExpiryConfirmed, setIsExpiryConfirmed] = useState<boolean>(false);
+  // Set when the user says the item has no date; otherwise one is needed before saving
+  const [hasNoExpiryDate, setHasNoExpiryDate] = useState<boolean>(false);
+  const [editedStock, setEditedStock] = useState<StockDetails>(DEFAULT_STOCK);
+  const [scannedBarcode, setScannedBarcode] = useState<string | null>(null);
+  const [uploadedImages, setUploadedImages] = useState<ProcessedImage[]>([]); // Starts a batch session
+  const [isReadingUploads, setIsReadingUploads] = useState<boolean>(false);
+  // Explains why a single-photo scan fell back to a separate photo for one field
+  const [fallbackNotice, setFallbackNotice] = useState<string | null>(null);
+
+  // Set while an existing product is being edited rather than a new one scanned
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  // Search, filters and layout of the pantry list, restored from the URL so a view can be bookmarked
+  const [pantryView, setPantryView] = useState<PantryView>(() => pantryViewFromSearch(window.location.search));
 
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [scanFailure, setScanFailure] = useState<ScanFailure | null>(null);
+  const [isOnline, setIsOnline] = useState<boolean>(() => navigator.onLine);
+  // Set when the user chose to save a scan for later; the remaining photos are then stored without being read
+  const [isDeferringExtraction, setIsDeferringExtraction] = useState<boolean>(false);
+  const [queueRuns, setQueueRuns] = useState<number>(0);
+  const isReadingQueueRef = useRef<boolean>(false);
+  // Aborts the photo analysis in flight when the user cancels or starts another one
+  const extractionAbortRef = useRef<AbortController | null>(null);
+  const recipeAbortRef = useRef<AbortController | null>(null);
 
   // States for recipe feature
   const [isFetchingRecipes, setIsFetchingRecipes] = useState<boolean>(false);
   const [recipes, setRecipes] = useState<Recipe[]>([]);
   const [recipeError, setRecipeError] = useState<string | null>(null);
+  const [canRetryRecipes, setCanRetryRecipes] = useState<boolean>(false);
+  const [recipeWarnings, setRecipeWarnings] = useState<string[]>([]);
+  const [recipePreferences, setRecipePreferences] = useState<RecipePreferences>(loadRecipePreferences);
+  const [isPreferencesOpen, setIsPreferencesOpen] = useState<boolean>(false);
   const [isRecipeModalOpen, setIsRecipeModalOpen] = useState<boolean>(false);
+  const [savedRecipes, setSavedRecipes] = useState<SavedRecipe[]>([]);
+  const [isRecipeBookOpen, setIsRecipeBookOpen] = useState<boolean>(false);
+  // The recipe being recorded as cooked, from either the suggestions or the recipe book
+  const [cookingRecipe, setCookingRecipe] = useState<Recipe | null>(null);
+  const [shoppingItems, setShoppingItems] = useState<ShoppingListItem[]>([]);
+  const [isShoppingListOpen, setIsShoppingListOpen] = useState<boolean>(false);
+  const [isBackupOpen, setIsBackupOpen] = useState<boolean>(false);
+  const [pantryEvents, setPantryEvents] = useState<PantryEvent[]>([]);
+  const [isWasteAnalyticsOpen, setIsWasteAnalyticsOpen] = useState<boolean>(false);
+  // Set while asking how an item left the pantry
+  const [removingProduct, setRemovingProduct] = useState<Product | null>(null);
+  const [usingProduct, setUsingProduct] = useState<Product | null>(null); // Weighed or measured item waiting for the amount used
 
-  // Load products from localStorage on initial render
+  // Keep products in sync with the repository, including changes made elsewhere (e.g. another tab)
   useEffect(() => {
-    try {
-      const storedProducts = localStorage.getItem('pantryProducts');
-      if (storedProducts) {
-        setProducts(JSON.parse(storedProducts));
-      }
-    } catch (e) {
-      console.error("Failed to load products from localStorage", e);
-      setError("Could not load saved products.");
-    }
+    return repository.watch(
+      loaded => {
+        setProducts(loaded);
+        setHasLoadedProducts(true);
+      },
+      () => setError("Could not load saved products.")
+    );
+  }, [repository]);
+
+  useEffect(() => {
+    return recipeBook.watch(setSavedRecipes, () => setError("Could not load your recipe book."));
+  }, [recipeBook]);
+
+  useEffect(() => {
+    return shoppingList.watch(setShoppingItems, () => setError("Could not load your shopping list."));
+  }, [shoppingList]);
+
+  useEffect(() => {
+    return pantryLog.watch(setPantryEvents, () => setError("Could not load the food waste history."));
+  }, [pantryLog]);
+
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  // Re-planned whenever the pantry or the reminder settings change; turning reminders off sends an empty plan
+  useEffect(() => {
+    if (!hasLoadedProducts || typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+    scheduleReminders(planReminders(products, settings, new Date()))
+      .catch(e => console.error("Failed to schedule reminders", e));
+  }, [products, settings, hasLoadedProducts]);
+
+  useEffect(() => {
+    saveRecipePreferences(recipePreferences);
+  }, [recipePreferences]);
+
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
   }, []);
 
-  // Save products to localStorage whenever they change
+  const pendingExtractionCount = useMemo(() => products.filter(isAwaitingExtraction).length, [products]);
+
+  // Reads queued scans whenever there is a connection and something to read. A run that stopped because the AI
+  // was unreachable is tried again when the connection comes back or another scan is queued.
   useEffect(() => {
-    try {
-      localStorage.setItem('pantryProducts', JSON.stringify(products));
-    } catch (e) {
-      console.error("Failed to save products to localStorage", e);
-      setError("Could not save products. Changes might not persist.");
-    }
-  }, [products]);
+    if (!hasLoadedProducts || !isOnline || pendingExtractionCount === 0 || isReadingQueueRef.current) return;
+    const readQueue = async () => {
+      isReadingQueueRef.current = true;
+      try {
+        const result = await processPendingExtractions(repository, aiProvider, settings.dateOrder);
+        // Scans queued while this run was going need another one
+        if (!result.stoppedEarly) setQueueRuns(runs => runs + 1);
+      } catch (e) {
+        console.error("Failed to read queued scans", e);
+      } finally {
+        isReadingQueueRef.current = false;
+      }
+    };
+    readQueue();
+  }, [hasLoadedProducts, isOnline, pendingExtractionCount, repository, aiProvider, settings.dateOrder, queueRuns]);
+
+  // replaceState rather than pushState, so typing a search doesn't fill the back button's history
+  useEffect(() => {
+    const url = window.location.pathname + pantryViewToSearch(pantryView) + window.location.hash;
+    window.history.replaceState(window.history.state, '', url);
+  }, [pantryView]);
+
+  const visibleProducts = useMemo(
+    () => filterPantry(products, pantryView, new Date(), settings.expiringSoonDays),
+    [products, pantryView, settings.expiringSoonDays]
+  );
+
+  const pantryGroups = useMemo(
+    () => groupPantry(visibleProducts, pantryView.grouping, new Date()),
+    [visibleProducts, pantryView.grouping]
+  );
+
+  const updatePantryView = (changes: Partial<PantryView>) => {
+    setPantryView(prevView => ({ ...prevView, ...changes }));
+  };
+
+  const toggleStatusFilter = (status: ExpiryStatus) => {
+    setPantryView(prevView => ({
+      ...prevView,
+      statuses: prevView.statuses.includes(status)
+        ? prevView.statuses.filter(s => s !== status)
+        : [...prevView.statuses, status],
+    }));
+  };
+
+  // Keeps the sort order, grouping and layout, which are preferences rather than filters
+  const clearPantryFilters = () => {
+    setPantryView(prevView => ({
+      ...DEFAULT_PANTRY_VIEW,
+      sortOrder: prevView.sortOrder,
+      grouping: prevView.grouping,
+      layout: prevView.layout,
+    }));
+  };
+
+  const locations = useMemo(() => listLocations(products), [products]);
+
+  const knownProducts = useMemo(() => listKnownProducts(products), [products]);
+
+  // Re-ranked as the pantry changes, e.g. when an item is used up while the suggestions are open
+  const rankedRecipes = useMemo(
+    () => rankRecipesByExpiry(recipes, products, new Date(), settings.expiringSoonDays),
+    [recipes, products, settings.expiringSoonDays]
+  );
 
   const resetScanState = () => {
     setCurrentNameImage(null);
     setCurrentExpiryImage(null);
+    setCurrentThumbnail(null);
     setExtractedName('');
     setEditedName('');
-    setExtractedExpiry('');
+    setParsedExpiry(null);
     setEditedExpiry('');
+    setEditedLabelType('unknown');
+    setIsExpiryConfirmed(false);
+    setHasNoExpiryDate(false);
+    setEditedStock(DEFAULT_STOCK);
+    setScannedBarcode(null);
+    setUploadedImages([]);
+    setFallbackNotice(null);
+    setEditingProduct(null);
     setError(null); // Clear previous errors
+    setScanFailure(null);
+    setIsDeferringExtraction(false);
+  };
+
+  const startExtraction = (): AbortSignal => {
+    extractionAbortRef.current?.abort();
+    const controller = new AbortController();
+    extractionAbortRef.current = controller;
+    setError(null);
+    setScanFailure(null);
+    return controller.signal;
+  };
+
+  const handleCancelExtraction = () => {
+    extractionAbortRef.current?.abort();
+    setIsLoading(false);
+    setScanStage(AWAITING_STAGE_FOR[scanStage] ?? ScanStage.IDLE);
+  };
+
+  // AiErrors get the recovery panel; anything else (e.g. a corrupt photo) falls back to the plain error banner
+  const reportScanFailure = (step: ScanFailure['step'], imageBase64: string, err: unknown, fallbackMessage: string) => {
+    console.error(err);
+    if (isAiError(err)) {
+      setScanFailure({ step, imageBase64, error: err });
+    } else {
+      setError(err instanceof Error ? err.message : fallbackMessage);
+    }
+  };
+
+  const isCancellation = (err: unknown) => isAiError(err) && err.kind === 'cancelled';
+
+  const shouldDeferExtraction = isDeferringExtraction || !isOnline;
+
+  // Saves the photos with the item marked as waiting to be read; the queue fills in the details later
+  const queueScanForLater = async (reads: PendingExtraction['reads'], expiryImage: string, nameImage: string | null, thumbnail: string | null) => {
+    const queuedProduct = createQueuedProduct({
+      id: crypto.randomUUID(),
+      reads,
+      name: reads === 'expiry' ? editedName : '',
+      stock: editedStock,
+      hasNameImage: !!nameImage,
+      hasThumbnail: !!thumbnail,
+      barcode: scannedBarcode ?? undefined,
+    });
+    try {
+      await repository.add(queuedProduct, {
+        nameImage: nameImage ? dataUrlToBlob(nameImage) : undefined,
+        expiryImage: dataUrlToBlob(expiryImage),
+        thumbnail: thumbnail ? dataUrlToBlob(thumbnail) : undefined,
+      });
+    } catch (e) {
+      console.error("Failed to queue scan", e);
+      setError("Could not save the scan. Please try again.");
+      return;
+    }
+    setScanStage(ScanStage.IDLE);
+    resetScanState();
+  };
+
+  // Reads whatever is still unknown: just the date when the name came from a barcode or an earlier photo
+  const queueExpiryScan = (expiryImage: string, nameImage: string | null, thumbnail: string | null) => {
+    if (editedName.trim()) return queueScanForLater('expiry', expiryImage, nameImage, thumbnail);
+    return queueScanForLater(nameImage ? 'name-and-expiry' : 'details', expiryImage, nameImage, thumbnail);
+  };
+
+  const deferNameImage = (nameImage: string, thumbnail: string | null) => {
+    setCurrentNameImage(nameImage);
+    if (currentExpiryImage) {
+      queueScanForLater('name-and-expiry', currentExpiryImage, nameImage, thumbnail);
+      return;
+    }
+    setFallbackNotice("The name will be read later. Now capture the expiry date.");
+    setScanStage(ScanStage.AWAITING_EXPIRY_IMAGE);
   };
 
   const handleStartScan = () => {
     resetScanState();
-    setScanStage(ScanStage.AWAITING_NAME_IMAGE);
+    setScanStage(settings.scanMode === 'single-photo' ? ScanStage.AWAITING_SINGLE_IMAGE : ScanStage.AWAITING_NAME_IMAGE);
+  };
+
+  const applyParsedExpiry = (parsed: ParsedExpiry) => {
+    setParsedExpiry(parsed);
+    setEditedExpiry(parsed.isoDate ?? ''); // Pre-fill edited expiry
+    setEditedLabelType(parsed.labelType);
+    setIsExpiryConfirmed(false);
+    setHasNoExpiryDate(false);
   };
 
-  const handleNameImageCapture = useCallback(async (imageBase64: string) => {
+  // One photo for both fields; whichever field comes back missing or unreliable gets its own photo afterwards
+  // The thumbnail is only passed on a fresh capture; retries reuse the one already kept
+  const handleSingleImageCapture = async (imageBase64: string, thumbnail?: string) => {
+    if (thumbnail) setCurrentThumbnail(thumbnail);
+    if (shouldDeferExtraction) {
+      queueScanForLater('details', imageBase64, null, thumbnail ?? currentThumbnail);
+      return;
+    }
+    setScanStage(ScanStage.PROCESSING_SINGLE_IMAGE);
+    setIsLoading(true);
+    const signal = startExtraction();
+    try {
+      const details = await aiProvider.extractProductDetails(imageBase64, { signal });
+      const parsed = parseExpiryText(details.expiryText, settings.dateOrder);
+      const hasName = !!details.name && details.nameConfidence >= LOW_CONFIDENCE_THRESHOLD;
+      const hasExpiry = !!parsed.isoDate && parsed.confidence >= LOW_CONFIDENCE_THRESHOLD;
+
+      if (hasName) {
+        setCurrentNameImage(imageBase64);
+        setExtractedName(details.name);
+        setEditedName(details.name); // Pre-fill edited name
+      }
+      if (hasExpiry) {
+        setCurrentExpiryImage(imageBase64);
+        applyParsedExpiry(parsed.labelType === 'unknown' ? { ...parsed, labelType: details.labelType } : parsed);
+      }
+
+      if (hasName && hasExpiry) {
+        setScanStage(ScanStage.CONFIRM_DETAILS);
+      } else if (hasName) {
+        setFallbackNotice("Got the name, but couldn't read the date clearly. Please take a close-up of the date.");
+        setScanStage(ScanStage.AWAITING_EXPIRY_IMAGE);
+      } else if (hasExpiry) {
+        setFallbackNotice("Got the date, but couldn't read the name clearly. Please take a photo of the name.");
+        setScanStage(ScanStage.AWAITING_NAME_IMAGE);
+      } else {
+        setFallbackNotice("Couldn't read this photo. Let's capture the name and the date separately.");
+        setScanStage(ScanStage.AWAITING_NAME_IMAGE);
+      }
+    } catch (err) {
+      if (isCancellation(err)) return;
+      reportScanFailure('single', imageBase64, err, "Failed to process product image.");
+      setScanStage(ScanStage.AWAITING_SINGLE_IMAGE); // Go back to allow retake
+    } finally {
+      if (!signal.aborted) setIsLoading(false);
+    }
+  };
+
+  const handleNameImageCapture = async (imageBase64: string, thumbnail?: string) => {
+    if (thumbnail) setCurrentThumbnail(thumbnail);
+    if (shouldDeferExtraction) {
+      deferNameImage(imageBase64, thumbnail ?? currentThumbnail);
+      return;
+    }
     setCurrentNameImage(imageBase64);
     setScanStage(ScanStage.PROCESSING_NAME_IMAGE);
     setIsLoading(true);
-    setError(null);
+    const signal = startExtraction();
     try {
-      const name = await extractTextFromImage(imageBase64, "Identify the primary product name from this image. Provide only the name.");
+      const name = await aiProvider.extractProductName(imageBase64, { signal });
       setExtractedName(name);
       setEditedName(name); // Pre-fill edited name
-      setScanStage(ScanStage.AWAITING_EXPIRY_IMAGE);
+      setFallbackNotice(null);
+      // The date may already be known from a single-photo scan
+      setScanStage(currentExpiryImage ? ScanStage.CONFIRM_DETAILS : ScanStage.AWAITING_EXPIRY_IMAGE);
     } catch (err) {
-      console.error(err);
-      setError(err instanceof Error ? err.message : "Failed to process product name image.");
+      if (isCancellation(err)) return;
+      reportScanFailure('name', imageBase64, err, "Failed to process product name image.");
       setScanStage(ScanStage.AWAITING_NAME_IMAGE); // Go back to allow retake
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) setIsLoading(false);
     }
-  }, []);
+  };
+
+  // A known barcode skips the name photo entirely; an unknown one is remembered once the item is saved
+  const handleBarcodeDetected = useCallback((barcode: string) => {
+    setScannedBarcode(barcode);
+    const entry = lookupBarcode(barcode);
+    if (!entry) return;
+    setScanFailure(null);
+    setExtractedName(entry.name);
+    setEditedName(entry.name);
+    setEditedStock(prevStock => ({ ...prevStock, unit: entry.unit, location: entry.location }));
+    setFallbackNotice(null);
+    setScanStage(currentExpiryImage ? ScanStage.CONFIRM_DETAILS : ScanStage.AWAITING_EXPIRY_IMAGE);
+  }, [currentExpiryImage]);
 
-  const handleExpiryImageCapture = useCallback(async (imageBase64: string) => {
+  const handleExpiryImageCapture = async (imageBase64: string, thumbnail?: string) => {
+    // A name photo taken earlier makes the better thumbnail
+    if (thumbnail && !currentThumbnail) setCurrentThumbnail(thumbnail);
+    if (shouldDeferExtraction && !editingProduct) {
+      queueExpiryScan(imageBase64, currentNameImage, currentThumbnail ?? thumbnail ?? null);
+      return;
+    }
+    if (!isOnline) {
+      // An edit can't wait in the queue, so keep the photo and let the date be typed in
+      setCurrentExpiryImage(imageBase64);
+      setParsedExpiry(null);
+      setIsExpiryConfirmed(false);
+      setError("You're offline, so the date couldn't be read. Please type it in.");
+      setScanStage(ScanStage.EDIT_DETAILS);
+      return;
+    }
     setCurrentExpiryImage(imageBase64);
     setScanStage(ScanStage.PROCESSING_EXPIRY_IMAGE);
     setIsLoading(true);
-    setError(null);
+    const signal = startExtraction();
     try {
-      const expiry = await extractTextFromImage(imageBase64, "Identify the expiry date from this image. Provide only the date, ideally in YYYY-MM-DD format if clearly visible, otherwise as seen.");
-      setExtractedExpiry(expiry);
-      setEditedExpiry(expiry); // Pre-fill edited expiry
-      setScanStage(ScanStage.CONFIRM_DETAILS);
+      const expiryText = await aiProvider.extractExpiryText(imageBase64, { signal });
+      applyParsedExpiry(parseExpiryText(expiryText, settings.dateOrder));
+      setFallbackNotice(null);
+      setScanStage(editingProduct ? ScanStage.EDIT_DETAILS : ScanStage.CONFIRM_DETAILS);
     } catch (err) {
-      console.error(err);
-      setError(err instanceof Error ? err.message : "Failed to process expiry date image.");
+      if (isCancellation(err)) return;
+      reportScanFailure('expiry', imageBase64, err, "Failed to process expiry date image.");
       setScanStage(ScanStage.AWAITING_EXPIRY_IMAGE); // Go back to allow retake
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) setIsLoading(false);
     }
-  }, []);
-  
-  const handleSaveProduct = () => {
+  };
+
+  const handleRetryScanFailure = () => {
+    if (!scanFailure) return;
+    const { step, imageBase64 } = scanFailure;
+    if (step === 'single') handleSingleImageCapture(imageBase64);
+    else if (step === 'name') handleNameImageCapture(imageBase64);
+    else handleExpiryImageCapture(imageBase64);
+  };
+
+  // Keeps the failed photo and moves on as if the AI had read nothing, so the field can be typed in
+  const handleEnterManually = () => {
+    if (!scanFailure) return;
+    const { step, imageBase64 } = scanFailure;
+    setScanFailure(null);
+    setFallbackNotice(null);
+    if (step === 'single') {
+      setCurrentNameImage(imageBase64);
+      setCurrentExpiryImage(imageBase64);
+      setScanStage(ScanStage.CONFIRM_DETAILS);
+    } else if (step === 'name') {
+      setCurrentNameImage(imageBase64);
+      setScanStage(currentExpiryImage ? ScanStage.CONFIRM_DETAILS : ScanStage.AWAITING_EXPIRY_IMAGE);
+    } else {
+      setCurrentExpiryImage(imageBase64);
+      setParsedExpiry(null);
+      setIsExpiryConfirmed(false);
+      setScanStage(editingProduct ? ScanStage.EDIT_DETAILS : ScanStage.CONFIRM_DETAILS);
+    }
+  };
+
+  // Only offered for new scans when the AI couldn't be reached
+  const handleSaveForLater = () => {
+    if (!scanFailure) return;
+    const { step, imageBase64 } = scanFailure;
+    setScanFailure(null);
+    setIsDeferringExtraction(true);
+    if (step === 'single') queueScanForLater('details', imageBase64, null, currentThumbnail);
+    else if (step === 'name') deferNameImage(imageBase64, currentThumbnail);
+    else queueExpiryScan(imageBase64, currentNameImage, currentThumbnail);
+  };
+
+  const handleExpiryDateChange = (expiryDate: string) => {
+    setEditedExpiry(expiryDate);
+    setIsExpiryConfirmed(true);
+    setHasNoExpiryDate(false);
+    setError(null);
+  };
+
+  const handleNoExpiryDateChange = (isChecked: boolean) => {
+    setHasNoExpiryDate(isChecked);
+    if (isChecked) {
+      setEditedExpiry('');
+      setIsExpiryConfirmed(true);
+    }
+    setError(null);
+  };
+
+  // Nothing is saved without a date by accident: it needs a real date or the "No expiry date" box ticked.
+  // An edit may keep a date saved before dates were parsed, as long as it isn't changed.
+  const isMissingExpiryDate = (): boolean => {
+    if (hasNoExpiryDate || parseIsoDate(editedExpiry.trim())) return false;
+    return !(editingProduct?.expiryDate && editedExpiry === editingProduct.expiryDate);
+  };
+
+  const handleSaveProduct = async () => {
     if (!editedName.trim()) {
       setError("Product name cannot be empty.");
       return;
     }
-    if (!currentNameImage || !currentExpiryImage) {
+    if (!currentExpiryImage || (!currentNameImage && !scannedBarcode)) {
         setError("Both product name and expiry images are required.");
         return;
     }
+    if (isMissingExpiryDate()) {
+      setError(MISSING_EXPIRY_MESSAGE);
+      return;
+    }
+    if (parsedExpiry && needsConfirmation(parsedExpiry) && !isExpiryConfirmed) {
+      setError("Please confirm the expiry date before saving.");
+      return;
+    }
+    if (editedStock.quantity <= 0 || !editedStock.location.trim()) {
+      setError("Please enter a quantity and where the item is kept.");
+      return;
+    }
+    const productId = crypto.randomUUID();
+    // One photo read for both fields is stored once
+    const sharesPhoto = currentNameImage === currentExpiryImage;
+    const newProduct = createScannedProduct({
+      id: productId,
+      name: editedName,
+      expiryDate: editedExpiry,
+      expiryLabelType: editedLabelType,
+      stock: editedStock,
+      aiName: extractedName,
+      parsedExpiry,
+      isExpiryConfirmed,
+      nameImageId: currentNameImage ? imageIdFor(productId, sharesPhoto ? 'expiry' : 'name') : undefined,
+      expiryImageId: imageIdFor(productId, 'expiry'),
+      thumbnailImageId: currentThumbnail ? imageIdFor(productId, 'thumbnail') : undefined,
+      barcode: scannedBarcode ?? undefined,
+    });
+    try {
+      await repository.add(newProduct, {
+        nameImage: currentNameImage && !sharesPhoto ? dataUrlToBlob(currentNameImage) : undefined,
+        expiryImage: dataUrlToBlob(currentExpiryImage),
+        thumbnail: currentThumbnail ? dataUrlToBlob(currentThumbnail) : undefined,
+      });
+    } catch (e) {
+      console.error("Failed to save product", e);
+      setError("Could not save product. Please try again.");
+      return;
+    }
+    if (scannedBarcode) {
+      learnBarcode(scannedBarcode, newProduct.name, getStock(newProduct));
+    }
+    setScanStage(ScanStage.IDLE);
+    resetScanState();
+  };
 
-    const newProduct: Product = {
-      id: crypto.randomUUID(),
-      name: editedName.trim(),
-      expiryDate: editedExpiry.trim(),
-      nameImageBase64: currentNameImage,
-      expiryImageBase64: currentExpiryImage,
-      scannedAt: new Date().toISOString(),
-    };
-    setProducts(prevProducts => [newProduct, ...prevProducts]);
+  const handleSaveBatchItem = async (item: BatchItem) => {
+    const productId = crypto.randomUUID();
+    const newProduct = createScannedProduct({
+      id: productId,
+      name: item.name,
+      expiryDate: item.expiryDate,
+      expiryLabelType: item.expiryLabelType,
+      stock: item.stock,
+      aiName: item.aiName,
+      parsedExpiry: item.parsedExpiry,
+      isExpiryConfirmed: item.isExpiryConfirmed,
+      // Batch items have a single photo showing both the name and the date label
+      expiryImageId: imageIdFor(productId, 'expiry'),
+      thumbnailImageId: imageIdFor(productId, 'thumbnail'),
+    });
+    await repository.add(newProduct, { expiryImage: dataUrlToBlob(item.imageBase64), thumbnail: dataUrlToBlob(item.thumbnail) });
+  };
+
+  // One photo goes through the single-photo scan; several start a batch session with them already captured
+  const handleUploadPhotos = async (files: File[]) => {
+    setIsReadingUploads(true);
+    const images: ProcessedImage[] = [];
+    const failures: string[] = [];
+    // A photo that can't be read is skipped, so the rest of the upload still goes through
+    for (const file of files) {
+      try {
+        images.push(await preprocessFile(file, settings));
+      } catch (e) {
+        console.error("Failed to read uploaded image", e);
+        failures.push(e instanceof Error ? e.message : `${file.name} could not be read.`);
+      }
+    }
+    setIsReadingUploads(false);
+    if (images.length === 0) {
+      setError(failures.length > 0 ? failures.join(' ') : "Could not read those photos. Please try again.");
+      return;
+    }
+    resetScanState();
+    if (images.length === 1) {
+      handleSingleImageCapture(images[0].ocrImage, images[0].thumbnail);
+    } else {
+      setUploadedImages(images);
+      setScanStage(ScanStage.BATCH_SESSION);
+    }
+    if (failures.length > 0) setError(`Skipped ${failures.length} photo(s): ${failures.join(' ')}`);
+  };
+
+  const handleStartManualEntry = () => {
+    resetScanState();
+    setIsExpiryConfirmed(true); // Typed-in dates need no confirmation
+    setScanStage(ScanStage.MANUAL_ENTRY);
+  };
+
+  // Picking a name used before also brings back where that item is usually kept
+  const handleManualNameChange = (name: string) => {
+    setEditedName(name);
+    const known = knownProducts.find(entry => entry.name.toLowerCase() === name.trim().toLowerCase());
+    if (known) setEditedStock(prevStock => ({ ...prevStock, unit: known.unit, location: known.location }));
+  };
+
+  const handleSaveManualProduct = async () => {
+    if (!editedName.trim()) {
+      setError("Product name cannot be empty.");
+      return;
+    }
+    if (isMissingExpiryDate()) {
+      setError(MISSING_EXPIRY_MESSAGE);
+      return;
+    }
+    if (editedStock.quantity <= 0 || !editedStock.location.trim()) {
+      setError("Please enter a quantity and where the item is kept.");
+      return;
+    }
+    const newProduct = createManualProduct({ name: editedName, expiryDate: editedExpiry, expiryLabelType: editedLabelType }, editedStock);
+    try {
+      await repository.add(newProduct);
+    } catch (e) {
+      console.error("Failed to save product", e);
+      setError("Could not save product. Please try again.");
+      return;
+    }
     setScanStage(ScanStage.IDLE);
     resetScanState();
   };
 
   const handleCancelScan = () => {
+    extractionAbortRef.current?.abort();
+    setScanStage(ScanStage.IDLE);
+    resetScanState();
+  };
+
+  const handleEditProduct = (product: Product) => {
+    resetScanState();
+    setEditingProduct(product);
+    setEditedName(product.name);
+    setEditedExpiry(product.expiryDate);
+    setEditedLabelType(product.expiryLabelType ?? 'unknown');
+    setEditedStock(getStock(product));
+    setIsExpiryConfirmed(true);
+    // Items still waiting for their date to be read or scanned haven't been declared dateless
+    setHasNoExpiryDate(!product.expiryDate && !product.awaitingExpiryScan && !product.pendingExtraction);
+    setScanStage(ScanStage.EDIT_DETAILS);
+  };
+
+  const handleRescanExpiry = () => {
+    setError(null);
+    setScanStage(ScanStage.AWAITING_EXPIRY_IMAGE);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingProduct) return;
+    if (!editedName.trim()) {
+      setError("Product name cannot be empty.");
+      return;
+    }
+    if (isMissingExpiryDate()) {
+      setError(MISSING_EXPIRY_MESSAGE);
+      return;
+    }
+    if (parsedExpiry && needsConfirmation(parsedExpiry) && !isExpiryConfirmed) {
+      setError("Please confirm the expiry date before saving.");
+      return;
+    }
+    if (editedStock.quantity <= 0 || !editedStock.location.trim()) {
+      setError("Please enter a quantity and where the item is kept.");
+      return;
+    }
+    const stock = { ...editedStock, location: editedStock.location.trim() };
+
+    const editedAt = new Date().toISOString();
+    const before = { ...editingProduct, ...getStock(editingProduct) };
+    const details = {
+      name: editedName.trim(),
+      expiryDate: editedExpiry.trim(),
+      expiryLabelType: editedLabelType,
+      ...stock,
+    };
+
+    let edits: ProductEdit[];
+    let expiryConfidence = editingProduct.expiryConfidence;
+    if (parsedExpiry) {
+      // Split the change into what the re-scan read and what the user then corrected
+      const rescanned = { ...before, expiryDate: parsedExpiry.isoDate ?? '', expiryLabelType: parsedExpiry.labelType };
+      edits = [
+        ...diffProductEdits(before, rescanned, 'rescan', editedAt),
+        ...diffProductEdits(rescanned, details, 'user', editedAt),
+      ];
+      expiryConfidence = isExpiryConfirmed ? 1 : parsedExpiry.confidence;
+    } else {
+      edits = diffProductEdits(before, details, 'user', editedAt);
+      if (details.expiryDate !== editingProduct.expiryDate) expiryConfidence = 1;
+    }
+
+    const updatedProduct: Product = {
+      ...editingProduct,
+      ...details,
+      expiryRawText: parsedExpiry ? parsedExpiry.rawText : editingProduct.expiryRawText,
+      expiryConfidence,
+      expiryImageId: currentExpiryImage ? imageIdFor(editingProduct.id, 'expiry', String(Date.now())) : editingProduct.expiryImageId,
+      editHistory: [...(editingProduct.editHistory ?? []), ...edits],
+      awaitingExpiryScan: editingProduct.awaitingExpiryScan && !details.expiryDate ? true : undefined,
+      // Filling in both fields by hand (or saying there is no date) leaves nothing for the queue to read or the user to check
+      pendingExtraction: details.name && (details.expiryDate || hasNoExpiryDate) ? undefined : editingProduct.pendingExtraction,
+    };
+    try {
+      await repository.update(updatedProduct, currentExpiryImage ? { expiryImage: dataUrlToBlob(currentExpiryImage) } : undefined);
+    } catch (e) {
+      console.error("Failed to update product", e);
+      setError("Could not save changes. Please try again.");
+      return;
+    }
+    if (updatedProduct.barcode) {
+      learnBarcode(updatedProduct.barcode, updatedProduct.name, stock, false);
+    }
     setScanStage(ScanStage.IDLE);
     resetScanState();
   };
   
+  // Items that leave the pantry go on the shopping list so they can be bought again
+  const addToShoppingList = async (entries: ShoppingListEntry[]) => {
+    try {
+      await shoppingList.add(entries);
+    } catch (e) {
+      console.error("Failed to add to shopping list", e);
+      setError("Could not update the shopping list. Please try again.");
+    }
+  };
+
+  // The item is already gone by now, so a failure here only loses it from the waste analytics
+  const logRemoval = async (product: Product, outcome: RemovalOutcome) => {
+    try {
+      await pantryLog.record(createPantryEvent(product, outcome));
+    } catch (e) {
+      console.error("Failed to log removed product", e);
+      setError("Could not record what happened to the item. It won't show in the food waste figures.");
+    }
+  };
+
+  const handleUseProduct = async (product: Product, amount: number | 'all') => {
+    const remaining = amount === 'all' ? null : consumeQuantity(product, amount);
+    try {
+      if (remaining) {
+        await repository.update(remaining);
+      } else {
+        await repository.delete(product.id);
+      }
+    } catch (e) {
+      console.error("Failed to update product quantity", e);
+      setError("Could not update the item. Please try again.");
+      return;
+    }
+    if (!remaining) {
+      await logRemoval(product, 'consumed');
+      await addToShoppingList([restockEntry(product.name, getStock(product).unit, USED_UP_SOURCE)]);
+    }
+  };
+
+  // Deleting asks what happened to the item first; see handleConfirmRemoval
   const handleDeleteProduct = (productId: string) => {
-    setProducts(prevProducts => prevProducts.filter(p => p.id !== productId));
+    const product = products.find(p => p.id === productId);
+    if (product) setRemovingProduct(product);
+  };
+
+  const handleConfirmRemoval = async (outcome: RemovalOutcome) => {
+    if (!removingProduct) return;
+    const product = removingProduct;
+    setRemovingProduct(null);
+    try {
+      await repository.delete(product.id);
+    } catch (e) {
+      console.error("Failed to delete product", e);
+      setError("Could not delete product. Please try again.");
+      return;
+    }
+    await logRemoval(product, outcome);
+    if (product.name) await addToShoppingList([restockEntry(product.name, getStock(product).unit, REMOVED_SOURCE)]);
+  };
+
+  const handleScanPendingExpiry = (product: Product) => {
+    handleEditProduct(product);
+    handleRescanExpiry();
   };
 
   const handleSuggestRecipes = async () => {
@@ -143,58 +857,202 @@ const App: React.FC = () => {
       return;
     }
 
+    recipeAbortRef.current?.abort();
+    const controller = new AbortController();
+    recipeAbortRef.current = controller;
+
     setIsFetchingRecipes(true);
     setRecipeError(null);
+    setCanRetryRecipes(false);
     setRecipes([]);
+    setRecipeWarnings([]);
     setIsRecipeModalOpen(true);
 
     try {
-      const itemNames = products.map(p => p.name);
-      const suggestedRecipes = await suggestRecipesFromIngredients(itemNames);
-      if (suggestedRecipes && suggestedRecipes.length > 0) {
-        setRecipes(suggestedRecipes);
+      // Scans still waiting to be read have no name to cook with yet
+      const ingredients = toPantryIngredients(products.filter(product => product.name), new Date());
+      const suggestions = await aiProvider.suggestRecipes(ingredients, recipePreferences, { signal: controller.signal });
+      const allowed = excludeConflictingRecipes(suggestions.recipes, recipePreferences);
+      setRecipeWarnings([...suggestions.warnings, ...allowed.warnings]);
+      if (allowed.recipes.length > 0) {
+        setRecipes(allowed.recipes);
       } else {
          setRecipeError("Could not find any recipes for the items in your pantry.");
       }
     } catch (err) {
+      if (isCancellation(err)) return;
       console.error(err);
       const errorMessage = err instanceof Error ? err.message : "An unknown error occurred while fetching recipes.";
       setRecipeError(errorMessage);
+      setCanRetryRecipes(isAiError(err) && err.retryable);
     } finally {
-      setIsFetchingRecipes(false);
+      if (!controller.signal.aborted) setIsFetchingRecipes(false);
+    }
+  };
+
+  const handleCloseRecipes = () => {
+    recipeAbortRef.current?.abort();
+    setIsFetchingRecipes(false);
+    setIsRecipeModalOpen(false);
+  };
+
+  const handleSaveRecipe = async (recipe: Recipe) => {
+    if (findSavedRecipe(savedRecipes, recipe)) return;
+    try {
+      await recipeBook.save(createSavedRecipe(recipe));
+    } catch (e) {
+      console.error("Failed to save recipe", e);
+      setError("Could not save the recipe. Please try again.");
+    }
+  };
+
+  const handleToggleFavourite = async (savedRecipe: SavedRecipe) => {
+    try {
+      await recipeBook.save({ ...savedRecipe, isFavourite: !savedRecipe.isFavourite });
+    } catch (e) {
+      console.error("Failed to update recipe", e);
+      setError("Could not update the recipe. Please try again.");
+    }
+  };
+
+  const handleDeleteSavedRecipe = async (savedRecipe: SavedRecipe) => {
+    try {
+      await recipeBook.delete(savedRecipe.id);
+    } catch (e) {
+      console.error("Failed to delete recipe", e);
+      setError("Could not remove the recipe. Please try again.");
+    }
+  };
+
+  const handleAddMissingToList = (recipe: Recipe) =>
+    addToShoppingList(recipe.missingIngredients.map(line => parseIngredientLine(line, recipe.recipeName)));
+
+  const handleToggleBought = async (item: ShoppingListItem) => {
+    try {
+      await shoppingList.update({ ...item, checkedAt: item.checkedAt ? undefined : new Date().toISOString() });
+    } catch (e) {
+      console.error("Failed to update shopping list item", e);
+      setError("Could not update the shopping list. Please try again.");
+    }
+  };
+
+  const handleRemoveShoppingItems = async (items: ShoppingListItem[]) => {
+    try {
+      await shoppingList.delete(items.map(item => item.id));
+    } catch (e) {
+      console.error("Failed to remove shopping list items", e);
+      setError("Could not update the shopping list. Please try again.");
+    }
+  };
+
+  // A bought item goes into the pantry straight away, flagged until its expiry label is scanned
+  const handleAddBoughtToPantry = async (item: ShoppingListItem, location: StorageLocation) => {
+    try {
+      await repository.add(createPendingProduct(item.name, { quantity: item.quantity, unit: item.unit, location }));
+      await shoppingList.delete([item.id]);
+    } catch (e) {
+      console.error("Failed to add bought item to the pantry", e);
+      setError("Could not add the item to your pantry. Please try again.");
+    }
+  };
+
+  const handleExportCalendar = () => {
+    downloadTextFile('pantry-expiry-dates.ics', toExpiryCalendar(products, settings.reminderDaysBefore), 'text/calendar');
+  };
+
+  const handleExportShoppingList = async (format: ShoppingListFormat) => {
+    const text = formatShoppingList(shoppingItems, format);
+    const fileName = format === 'markdown' ? 'shopping-list.md' : 'shopping-list.txt';
+    await shareOrDownloadText('Shopping list', fileName, text, format === 'markdown' ? 'text/markdown' : 'text/plain');
+  };
+
+  // Cooking a suggestion saves it to the recipe book so the history has somewhere to live
+  const handleConfirmCooked = async (usages: PantryUsage[]) => {
+    if (!cookingRecipe) return;
+    const savedRecipe = findSavedRecipe(savedRecipes, cookingRecipe) ?? createSavedRecipe(cookingRecipe);
+    setCookingRecipe(null);
+    try {
+      await recipeBook.save({ ...savedRecipe, cookedAt: [...savedRecipe.cookedAt, new Date().toISOString()] });
+    } catch (e) {
+      console.error("Failed to record cooked recipe", e);
+      setError("Could not record that you cooked this recipe. Please try again.");
+      return;
+    }
+    for (const { product, amount } of usages) {
+      await handleUseProduct(product, amount);
     }
   };
 
 
   const renderContent = () => {
-    if (isLoading && (scanStage === ScanStage.PROCESSING_NAME_IMAGE || scanStage === ScanStage.PROCESSING_EXPIRY_IMAGE)) {
+    const today = new Date();
+    const processingMessages: Partial<Record<ScanStage, string>> = {
+      [ScanStage.PROCESSING_SINGLE_IMAGE]: "Analyzing product name and expiry date...",
+      [ScanStage.PROCESSING_NAME_IMAGE]: "Analyzing product name...",
+      [ScanStage.PROCESSING_EXPIRY_IMAGE]: "Analyzing expiry date...",
+    };
+    if (isLoading && processingMessages[scanStage]) {
       return (
         <div className="flex flex-col items-center justify-center p-8 min-h-[300px] bg-white/50 rounded-lg shadow">
           <Spinner size="lg" />
           <p className="mt-4 text-lg font-poppins text-neutral-dark">
-            {scanStage === ScanStage.PROCESSING_NAME_IMAGE ? "Analyzing product name..." : "Analyzing expiry date..."}
+            {processingMessages[scanStage]}
           </p>
+          <button onClick={handleCancelExtraction} className="mt-4 text-sm text-neutral hover:text-neutral-dark">
+            Cancel
+          </button>
         </div>
       );
     }
 
     switch (scanStage) {
-      case ScanStage.AWAITING_NAME_IMAGE:
+      case ScanStage.AWAITING_SINGLE_IMAGE:
         return (
           <CameraCapture
-            onCapture={handleNameImageCapture}
-            captureLabel="Capture Product Name"
-            instructionText="Center the product name in the frame and capture."
+            onCapture={handleSingleImageCapture}
+            imageProcessing={settings}
+            captureLabel="Capture Product"
+            frameHint="Product name and date"
+            instructionText="Fit the product name and its date label in one photo."
             onClose={handleCancelScan}
           />
         );
+      case ScanStage.AWAITING_NAME_IMAGE:
+        return (
+          <div className="w-full max-w-lg mx-auto">
+            {fallbackNotice && (
+              <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">{fallbackNotice}</div>
+            )}
+            {scannedBarcode && (
+              <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+                Barcode <span className="font-mono">{scannedBarcode}</span> is new. Capture the product name once and it will be remembered next time.
+              </div>
+            )}
+            <CameraCapture
+              onCapture={handleNameImageCapture}
+              imageProcessing={settings}
+              captureLabel="Capture Product Name"
+              frameHint="Product name"
+              instructionText="Scan the barcode, or center the product name in the frame and capture."
+              onClose={handleCancelScan}
+              onBarcodeDetected={scannedBarcode ? undefined : handleBarcodeDetected}
+            />
+          </div>
+        );
       case ScanStage.AWAITING_EXPIRY_IMAGE:
         return (
           <div className="w-full max-w-lg mx-auto">
-             {currentNameImage && (
+             {fallbackNotice && (
+              <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">{fallbackNotice}</div>
+            )}
+             {!editingProduct && (currentNameImage || scannedBarcode) && (
               <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg shadow">
-                <p className="text-sm font-medium text-green-700 mb-1">Product Name Captured:</p>
-                <img src={currentNameImage} alt="Product Name Preview" className="rounded-md object-contain max-h-32 mx-auto mb-2 border"/>
+                <p className="text-sm font-medium text-green-700 mb-1">
+                  {currentNameImage ? 'Product Name Captured:' : <>Barcode Recognised (<span className="font-mono">{scannedBarcode}</span>):</>}
+                </p>
+                {currentNameImage && (
+                  <img src={currentNameImage} alt="Product Name Preview" className="rounded-md object-contain max-h-32 mx-auto mb-2 border"/>
+                )}
                 <input
                     type="text"
                     value={editedName}
@@ -206,9 +1064,11 @@ const App: React.FC = () => {
             )}
             <CameraCapture
               onCapture={handleExpiryImageCapture}
+              imageProcessing={settings}
               captureLabel="Capture Expiry Date"
-              instructionText="Now, capture the product's expiry date."
-              onClose={handleCancelScan}
+              frameHint="Expiry date"
+              instructionText={editingProduct ? `Capture the expiry date of ${editingProduct.name}.` : "Now, capture the product's expiry date."}
+              onClose={editingProduct ? () => setScanStage(ScanStage.EDIT_DETAILS) : handleCancelScan}
             />
           </div>
         );
@@ -231,33 +1091,26 @@ const App: React.FC = () => {
                 </div>
               )}
             </div>
-            <div>
-              <label htmlFor="productName" className="block text-sm font-medium text-neutral-dark mb-1">Product Name</label>
-              <input
-                id="productName"
-                type="text"
-                value={editedName}
-                onChange={(e) => setEditedName(e.target.value)}
-                className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary transition-shadow"
-                placeholder="Enter product name"
-              />
-            </div>
-            <div>
-              <label htmlFor="expiryDate" className="block text-sm font-medium text-neutral-dark mb-1">Expiry Date</label>
-              <input
-                id="expiryDate"
-                type="text" // Using text to accommodate various formats from AI
-                value={editedExpiry}
-                onChange={(e) => setEditedExpiry(e.target.value)}
-                className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary transition-shadow"
-                placeholder="Enter expiry date (e.g., YYYY-MM-DD)"
-              />
-            </div>
+            <ProductDetailsForm
+              name={editedName}
+              onNameChange={setEditedName}
+              expiryDate={editedExpiry}
+              onExpiryDateChange={handleExpiryDateChange}
+              hasNoExpiryDate={hasNoExpiryDate}
+              onNoExpiryDateChange={handleNoExpiryDateChange}
+              labelType={editedLabelType}
+              onLabelTypeChange={setEditedLabelType}
+              parsedExpiry={parsedExpiry}
+              isExpiryConfirmed={isExpiryConfirmed}
+              stock={editedStock}
+              onStockChange={setEditedStock}
+              locations={locations}
+            />
             <div className="flex flex-col sm:flex-row gap-3 pt-2">
               <button onClick={handleSaveProduct} className="flex-1 bg-secondary text-white px-6 py-3 rounded-lg font-semibold hover:bg-green-600 transition-colors shadow-md">
                 Save Product
               </button>
-              <button onClick={() => setScanStage(ScanStage.AWAITING_NAME_IMAGE)} className="flex-1 bg-amber-500 text-white px-6 py-3 rounded-lg font-semibold hover:bg-amber-600 transition-colors shadow-md">
+              <button onClick={handleStartScan} className="flex-1 bg-amber-500 text-white px-6 py-3 rounded-lg font-semibold hover:bg-amber-600 transition-colors shadow-md">
                 Retake All
               </button>
             </div>
@@ -266,6 +1119,98 @@ const App: React.FC = () => {
             </button>
           </div>
         );
+      case ScanStage.MANUAL_ENTRY:
+        return (
+          <div className="p-6 bg-white rounded-xl shadow-xl w-full max-w-lg mx-auto space-y-6">
+            <h2 className="text-2xl font-poppins font-semibold text-center text-neutral-dark">Add Item</h2>
+            {error && <p className="text-red-500 bg-red-100 p-3 rounded-md text-sm">{error}</p>}
+            <ProductDetailsForm
+              name={editedName}
+              onNameChange={handleManualNameChange}
+              expiryDate={editedExpiry}
+              onExpiryDateChange={handleExpiryDateChange}
+              hasNoExpiryDate={hasNoExpiryDate}
+              onNoExpiryDateChange={handleNoExpiryDateChange}
+              labelType={editedLabelType}
+              onLabelTypeChange={setEditedLabelType}
+              parsedExpiry={null}
+              isExpiryConfirmed={true}
+              stock={editedStock}
+              onStockChange={setEditedStock}
+              locations={locations}
+              nameSuggestions={knownProducts.map(entry => entry.name)}
+            />
+            <button onClick={handleSaveManualProduct} className="w-full bg-secondary text-white px-6 py-3 rounded-lg font-semibold hover:bg-green-600 transition-colors shadow-md">
+              Save Product
+            </button>
+            <button onClick={handleCancelScan} className="w-full text-center text-neutral hover:text-neutral-dark mt-2 text-sm">
+              Cancel
+            </button>
+          </div>
+        );
+      case ScanStage.EDIT_DETAILS:
+        if (!editingProduct) return null;
+        return (
+          <div className="p-6 bg-white rounded-xl shadow-xl w-full max-w-lg mx-auto space-y-6">
+            <h2 className="text-2xl font-poppins font-semibold text-center text-neutral-dark">Edit Product</h2>
+            {error && <p className="text-red-500 bg-red-100 p-3 rounded-md text-sm">{error}</p>}
+            {/* Items typed in by hand have no photos until a date label is scanned */}
+            {(editingProduct.nameImageId || editingProduct.expiryImageId || currentExpiryImage) && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-center">
+                <div>
+                  <p className="text-sm font-medium text-neutral mb-1">Name Image:</p>
+                  <StoredImage imageId={editingProduct.nameImageId} alt="Product Name" className="rounded-lg border object-contain max-h-40 w-full" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-neutral mb-1">Expiry Image{currentExpiryImage ? ' (new)' : ''}:</p>
+                  {currentExpiryImage ? (
+                    <img src={currentExpiryImage} alt="Expiry Date" className="rounded-lg border object-contain max-h-40 w-full" />
+                  ) : (
+                    <StoredImage imageId={editingProduct.expiryImageId} alt="Expiry Date" className="rounded-lg border object-contain max-h-40 w-full" />
+                  )}
+                </div>
+              </div>
+            )}
+            <ProductDetailsForm
+              name={editedName}
+              onNameChange={setEditedName}
+              expiryDate={editedExpiry}
+              onExpiryDateChange={handleExpiryDateChange}
+              hasNoExpiryDate={hasNoExpiryDate}
+              onNoExpiryDateChange={handleNoExpiryDateChange}
+              labelType={editedLabelType}
+              onLabelTypeChange={setEditedLabelType}
+              parsedExpiry={parsedExpiry}
+              isExpiryConfirmed={isExpiryConfirmed}
+              stock={editedStock}
+              onStockChange={setEditedStock}
+              locations={locations}
+            />
+            <ProductEditHistory product={editingProduct} />
+            <div className="flex flex-col sm:flex-row gap-3 pt-2">
+              <button onClick={handleSaveEdit} className="flex-1 bg-secondary text-white px-6 py-3 rounded-lg font-semibold hover:bg-green-600 transition-colors shadow-md">
+                Save Changes
+              </button>
+              <button onClick={handleRescanExpiry} className="flex-1 bg-amber-500 text-white px-6 py-3 rounded-lg font-semibold hover:bg-amber-600 transition-colors shadow-md">
+                Re-scan Expiry Date
+              </button>
+            </div>
+            <button onClick={handleCancelScan} className="w-full text-center text-neutral hover:text-neutral-dark mt-2 text-sm">
+                Cancel
+            </button>
+          </div>
+        );
+      case ScanStage.BATCH_SESSION:
+        return (
+          <BatchScanSession
+            dateOrder={settings.dateOrder}
+            imageProcessing={settings}
+            locations={locations}
+            initialImages={uploadedImages}
+            onSaveItem={handleSaveBatchItem}
+            onClose={handleCancelScan}
+          />
+        );
       case ScanStage.IDLE:
       default:
         return (
@@ -280,6 +1225,12 @@ const App: React.FC = () => {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
                   </svg>
                   Scan New Item
+                </button>
+                <button
+                  onClick={() => setScanStage(ScanStage.BATCH_SESSION)}
+                  className="flex-1 flex items-center justify-center gap-3 bg-white text-primary border-2 border-primary px-6 py-4 rounded-xl font-semibold text-lg hover:bg-blue-50 transition-all duration-150 ease-in-out shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
+                >
+                  Batch Scan
                 </button>
                  {products.length > 0 && (
                     <button
@@ -299,15 +1250,174 @@ const App: React.FC = () => {
                     </button>
                 )}
             </div>
+            {products.length > 0 && (
+              <p className="text-center -mt-6 mb-8 text-sm text-neutral">
+                Recipes for: {describeRecipePreferences(recipePreferences)}{' '}
+                <button onClick={() => setIsPreferencesOpen(true)} className="underline hover:text-neutral-dark">Change</button>
+              </p>
+            )}
+            <div className="flex justify-center items-center gap-2 -mt-6 mb-10 text-sm" role="group" aria-label="Scan mode">
+              <span className="text-neutral">Scan with:</span>
+              {SCAN_MODE_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setSettings(prevSettings => ({ ...prevSettings, scanMode: option.value }))}
+                  className={`px-3 py-1 rounded-full border transition-colors ${settings.scanMode === option.value ? 'bg-primary text-white border-primary' : 'bg-white text-neutral-dark border-gray-300 hover:border-primary'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div className="w-full max-w-xl mx-auto -mt-4 mb-10 space-y-2">
+              <PhotoDropZone
+                onFiles={handleUploadPhotos}
+                disabled={isReadingUploads}
+                label={isReadingUploads ? 'Reading photos...' : 'Upload photos instead'}
+                hint="or drop them here. One photo per item, showing its name and date."
+              />
+              <p className="text-center text-sm text-neutral">
+                No photo?{' '}
+                <button onClick={handleStartManualEntry} className="underline hover:text-neutral-dark">Type in an item</button>
+              </p>
+            </div>
             
             {products.length > 0 ? (
               <>
                 <h2 className="text-2xl font-poppins font-semibold text-neutral-dark mb-6 text-center">Your Pantry Items</h2>
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                  {products.map(product => (
-                    <ProductCard key={product.id} product={product} onDelete={handleDeleteProduct} />
-                  ))}
+                <ExpiryStatusSummary
+                  counts={countByExpiryStatus(products, today, settings.expiringSoonDays)}
+                  expiringSoonDays={settings.expiringSoonDays}
+                  selected={pantryView.statuses}
+                  onToggle={toggleStatusFilter}
+                />
+                <div className="mb-3">
+                  <label htmlFor="pantrySearch" className="sr-only">Search the pantry</label>
+                  <input
+                    id="pantrySearch"
+                    type="search"
+                    value={pantryView.query}
+                    onChange={(e) => updatePantryView({ query: e.target.value })}
+                    placeholder="Search by name, e.g. chedar"
+                    className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-primary"
+                  />
                 </div>
+                <div className="flex flex-wrap justify-end gap-2 mb-4">
+                  <label htmlFor="locationFilter" className="text-sm text-neutral self-center">Location</label>
+                  <select
+                    id="locationFilter"
+                    value={pantryView.location}
+                    onChange={(e) => updatePantryView({ location: e.target.value })}
+                    className="p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-primary"
+                  >
+                    <option value="all">All locations</option>
+                    {locations.map(location => (
+                      <option key={location} value={location}>{formatLocation(location)}</option>
+                    ))}
+                  </select>
+                  <label htmlFor="scannedFrom" className="text-sm text-neutral self-center ml-2">Scanned</label>
+                  <input
+                    id="scannedFrom"
+                    type="date"
+                    value={pantryView.scannedFrom}
+                    max={pantryView.scannedTo || undefined}
+                    onChange={(e) => updatePantryView({ scannedFrom: e.target.value })}
+                    aria-label="Scanned on or after"
+                    className="p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-primary"
+                  />
+                  <span className="text-sm text-neutral self-center">to</span>
+                  <input
+                    type="date"
+                    value={pantryView.scannedTo}
+                    min={pantryView.scannedFrom || undefined}
+                    onChange={(e) => updatePantryView({ scannedTo: e.target.value })}
+                    aria-label="Scanned on or before"
+                    className="p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-primary"
+                  />
+                </div>
+                <div className="flex flex-wrap justify-end gap-2 mb-4">
+                  <label htmlFor="sortOrder" className="text-sm text-neutral self-center">Sort by</label>
+                  <select
+                    id="sortOrder"
+                    value={pantryView.sortOrder}
+                    onChange={(e) => updatePantryView({ sortOrder: e.target.value as PantrySortOrder })}
+                    className="p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-primary"
+                  >
+                    <option value="expiry">Soonest expiry</option>
+                    <option value="scanned">Recently scanned</option>
+                  </select>
+                  <label htmlFor="pantryGrouping" className="text-sm text-neutral self-center ml-2">Group by</label>
+                  <select
+                    id="pantryGrouping"
+                    value={pantryView.grouping}
+                    onChange={(e) => updatePantryView({ grouping: e.target.value as PantryGrouping })}
+                    className="p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-primary"
+                  >
+                    <option value="none">Nothing</option>
+                    <option value="expiry-week">Expiry week</option>
+                    <option value="location">Location</option>
+                  </select>
+                  <div className="flex ml-2" role="group" aria-label="Layout">
+                    {(['cards', 'list'] as const).map(layout => (
+                      <button
+                        key={layout}
+                        onClick={() => updatePantryView({ layout })}
+                        aria-pressed={pantryView.layout === layout}
+                        className={`px-3 py-1 border text-sm transition-colors first:rounded-l-lg last:rounded-r-lg ${pantryView.layout === layout ? 'bg-primary text-white border-primary' : 'bg-white text-neutral-dark border-gray-300 hover:border-primary'}`}
+                      >
+                        {layout === 'cards' ? 'Cards' : 'List'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {isFilteredView(pantryView) && (
+                  <p className="text-sm text-neutral text-right mb-4">
+                    Showing {visibleProducts.length} of {products.length} items.{' '}
+                    <button onClick={clearPantryFilters} className="underline hover:text-neutral-dark">Clear filters</button>
+                  </p>
+                )}
+                {visibleProducts.length === 0 ? (
+                  <p className="text-center py-10 px-6 bg-white rounded-lg shadow-md text-neutral">No items match your search and filters.</p>
+                ) : (
+                  <div className="space-y-8">
+                    {pantryGroups.map(group => (
+                      <section key={group.key} aria-label={group.label || undefined}>
+                        {group.label && (
+                          <h3 className="text-lg font-poppins font-semibold text-neutral-dark mb-3">
+                            {group.label} <span className="text-sm font-normal text-neutral">({group.products.length})</span>
+                          </h3>
+                        )}
+                        {pantryView.layout === 'list' ? (
+                          <PantryTable
+                            products={group.products}
+                            today={today}
+                            expiringSoonDays={settings.expiringSoonDays}
+                            onEdit={handleEditProduct}
+                            onUse={handleUseProduct}
+                            onUseSome={setUsingProduct}
+                            onDelete={handleDeleteProduct}
+                            onScanExpiry={handleScanPendingExpiry}
+                          />
+                        ) : (
+                          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                            {group.products.map(product => (
+                              <ProductCard
+                                key={product.id}
+                                product={product}
+                                status={getExpiryStatus(product.expiryDate, today, settings.expiringSoonDays)}
+                                daysUntilExpiry={daysUntilExpiry(product.expiryDate, today)}
+                                onEdit={handleEditProduct}
+                                onUse={handleUseProduct}
+                                onUseSome={setUsingProduct}
+                                onDelete={handleDeleteProduct}
+                                onScanExpiry={handleScanPendingExpiry}
+                              />
+                            ))}
+                          </div>
+                        )}
+                      </section>
+                    ))}
+                  </div>
+                )}
               </>
             ) : (
              <div className="text-center py-10 px-6 bg-white rounded-lg shadow-md">
@@ -324,38 +1434,163 @@ const App: React.FC = () => {
   };
 
   return (
-    <div className="min-h-screen container mx-auto p-4 md:p-8">
-      <header className="text-center mb-8 md:mb-12">
-        <h1 className="text-4xl md:text-5xl font-poppins font-bold text-transparent bg-clip-text bg-gradient-to-r from-primary via-secondary to-accent">
-          Pantry Pal Scanner
-        </h1>
-        <p className="text-neutral mt-2 text-md md:text-lg">Keep track of your pantry items effortlessly.</p>
-      </header>
+    <PantryRepositoryContext.Provider value={repository}>
+      <AiProviderContext.Provider value={aiProvider}>
+        <div className="min-h-screen container mx-auto p-4 md:p-8">
+          <header className="text-center mb-8 md:mb-12">
+            <h1 className="text-4xl md:text-5xl font-poppins font-bold text-transparent bg-clip-text bg-gradient-to-r from-primary via-secondary to-accent">
+              Pantry Pal Scanner
+            </h1>
+            <p className="text-neutral mt-2 text-md md:text-lg">Keep track of your pantry items effortlessly.</p>
+            <div className="mt-3 flex justify-center gap-4 text-sm">
+              <button onClick={() => setIsShoppingListOpen(true)} className="text-neutral hover:text-neutral-dark underline">
+                Shopping List{shoppingItems.some(item => !item.checkedAt) && ` (${shoppingItems.filter(item => !item.checkedAt).length})`}
+              </button>
+              <button onClick={() => setIsRecipeBookOpen(true)} className="text-neutral hover:text-neutral-dark underline">
+                Recipe Book
+              </button>
+              <button onClick={() => setIsWasteAnalyticsOpen(true)} className="text-neutral hover:text-neutral-dark underline">
+                Food Waste
+              </button>
+              <button onClick={() => setIsBackupOpen(true)} className="text-neutral hover:text-neutral-dark underline">
+                Backup
+              </button>
+              <button onClick={() => setIsSettingsOpen(true)} className="text-neutral hover:text-neutral-dark underline">
+                Settings
+              </button>
+            </div>
+          </header>
+
+          <QuarantineNotice />
+
+          {(!isOnline || pendingExtractionCount > 0) && (
+            <div className="max-w-xl mx-auto mb-6 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800 text-center">
+              {!isOnline && "You're offline. Scans are saved and read once you're back online. "}
+              {pendingExtractionCount > 0 && `${pendingExtractionCount} scan${pendingExtractionCount === 1 ? ' is' : 's are'} waiting to be read.`}
+            </div>
+          )}
       
-      {error && scanStage !== ScanStage.CONFIRM_DETAILS && ( /* Show general errors not related to confirmation screen validation */
-        <div className="my-4 p-4 bg-red-100 text-red-700 rounded-lg shadow text-center">
-          <p className="font-medium">Oops! Something went wrong:</p>
-          <p className="text-sm">{error}</p>
-          <button onClick={() => setError(null)} className="mt-2 text-xs text-red-600 hover:underline">Dismiss</button>
+          {error && scanStage !== ScanStage.CONFIRM_DETAILS && scanStage !== ScanStage.EDIT_DETAILS && scanStage !== ScanStage.MANUAL_ENTRY && ( /* Show general errors not related to confirmation screen validation */
+            <div className="my-4 p-4 bg-red-100 text-red-700 rounded-lg shadow text-center">
+              <p className="font-medium">Oops! Something went wrong:</p>
+              <p className="text-sm">{error}</p>
+              <button onClick={() => setError(null)} className="mt-2 text-xs text-red-600 hover:underline">Dismiss</button>
+            </div>
+          )}
+
+          {scanFailure && (
+            <ScanErrorRecovery
+              error={scanFailure.error}
+              onRetry={handleRetryScanFailure}
+              onRetake={() => setScanFailure(null)}
+              onEnterManually={handleEnterManually}
+              onSaveForLater={editingProduct ? undefined : handleSaveForLater}
+            />
+          )}
+
+          <main className="flex flex-col items-center">
+            {renderContent()}
+          </main>
+
+          <RecipeModal
+            isOpen={isRecipeModalOpen}
+            onClose={handleCloseRecipes}
+            recipes={rankedRecipes}
+            isLoading={isFetchingRecipes}
+            error={recipeError}
+            warnings={recipeWarnings}
+            preferencesSummary={describeRecipePreferences(recipePreferences)}
+            onEditPreferences={() => setIsPreferencesOpen(true)}
+            onRetry={canRetryRecipes ? handleSuggestRecipes : undefined}
+            savedRecipes={savedRecipes}
+            onSaveRecipe={handleSaveRecipe}
+            onCookRecipe={setCookingRecipe}
+            onAddMissingToList={handleAddMissingToList}
+          />
+
+          <SettingsModal
+            isOpen={isSettingsOpen}
+            onClose={() => setIsSettingsOpen(false)}
+            settings={settings}
+            onChange={setSettings}
+            onExportCalendar={handleExportCalendar}
+          />
+
+          <RecipePreferencesModal
+            isOpen={isPreferencesOpen}
+            onClose={() => setIsPreferencesOpen(false)}
+            preferences={recipePreferences}
+            onChange={setRecipePreferences}
+          />
+
+          <RecipeBookModal
+            isOpen={isRecipeBookOpen}
+            onClose={() => setIsRecipeBookOpen(false)}
+            savedRecipes={savedRecipes}
+            onToggleFavourite={handleToggleFavourite}
+            onCookRecipe={setCookingRecipe}
+            onDeleteRecipe={handleDeleteSavedRecipe}
+            onAddMissingToList={handleAddMissingToList}
+          />
+
+          <ShoppingListModal
+            isOpen={isShoppingListOpen}
+            onClose={() => setIsShoppingListOpen(false)}
+            items={shoppingItems}
+            locations={locations}
+            onAddItems={addToShoppingList}
+            onToggleBought={handleToggleBought}
+            onRemoveItems={handleRemoveShoppingItems}
+            onAddToPantry={handleAddBoughtToPantry}
+            onExport={handleExportShoppingList}
+          />
+
+          <PantryBackupModal
+            isOpen={isBackupOpen}
+            onClose={() => setIsBackupOpen(false)}
+          />
+
+          <WasteAnalyticsModal
+            isOpen={isWasteAnalyticsOpen}
+            onClose={() => setIsWasteAnalyticsOpen(false)}
+            events={pantryEvents}
+          />
+
+          {usingProduct && (
+            <UseAmountDialog
+              product={usingProduct}
+              onConfirm={(amount) => {
+                setUsingProduct(null);
+                handleUseProduct(usingProduct, amount);
+              }}
+              onCancel={() => setUsingProduct(null)}
+            />
+          )}
+
+          {removingProduct && (
+            <RemoveProductDialog
+              product={removingProduct}
+              isExpired={getExpiryStatus(removingProduct.expiryDate, new Date(), settings.expiringSoonDays) === ExpiryStatus.EXPIRED}
+              onConfirm={handleConfirmRemoval}
+              onCancel={() => setRemovingProduct(null)}
+            />
+          )}
+
+          {cookingRecipe && (
+            <CookRecipeDialog
+              recipe={cookingRecipe}
+              products={products}
+              onConfirm={handleConfirmCooked}
+              onCancel={() => setCookingRecipe(null)}
+            />
+          )}
+
+          <footer className="text-center mt-12 py-6 border-t border-gray-200">
+            <p className="text-sm text-gray-500">&copy; {new Date().getFullYear()} Pantry Pal Scanner. AI-Powered Inventory.</p>
+          </footer>
         </div>
-      )}
-
-      <main className="flex flex-col items-center">
-        {renderContent()}
-      </main>
-
-      <RecipeModal
-        isOpen={isRecipeModalOpen}
-        onClose={() => setIsRecipeModalOpen(false)}
-        recipes={recipes}
-        isLoading={isFetchingRecipes}
-        error={recipeError}
-      />
-
-      <footer className="text-center mt-12 py-6 border-t border-gray-200">
-        <p className="text-sm text-gray-500">&copy; {new Date().getFullYear()} Pantry Pal Scanner. AI-Powered Inventory.</p>
-      </footer>
-    </div>
+      </AiProviderContext.Provider>
+    </PantryRepositoryContext.Provider>
   );
 };
 
@@ -0,0 +1,12 @@
+import { createContext, useContext } from 'react';
+import { AiProvider } from '../services/aiProvider';
+
+export const AiProviderContext = createContext<AiProvider | null>(null);
+
+export const useAiProvider = (): AiProvider => {
+  const aiProvider = useContext(AiProviderContext);
+  if (!aiProvider) {
+    throw new Error("useAiProvider must be used inside an AiProviderContext provider");
+  }
+  return aiProvider;
+};
@@ -0,0 +1,366 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { BatchItem, DateOrder, ExpiryLabelType, StorageLocation } from '../types';
+import { parseExpiryText, needsConfirmation, parseIsoDate, EXPIRY_LABEL_NAMES } from '../services/expiryParser';
+import { createConcurrencyLimiter } from '../services/concurrency';
+import { isAiError } from '../services/aiErrors';
+import { DEFAULT_STOCK, UNITS, formatLocation } from '../services/pantryInventory';
+import { ImageProcessingSettings, ProcessedImage, preprocessFile } from '../services/imagePreprocessing';
+import CameraCapture from './CameraCapture';
+import PhotoDropZone from './PhotoDropZone';
+import Spinner from './Spinner';
+import { useAiProvider } from './AiProviderContext';
+
+interface BatchScanSessionProps {
+  dateOrder: DateOrder;
+  locations: StorageLocation[];
+  imageProcessing: ImageProcessingSettings;
+  initialImages?: ProcessedImage[]; // Uploaded photos to start the session with
+  onSaveItem: (item: BatchItem) => Promise<void>;
+  onClose: () => void; // Also called once every included item is saved
+}
+
+// Extractions run in the background while the next item is captured
+const EXTRACTION_CONCURRENCY = 2;
+
+const STATUS_LABELS: Record<BatchItem['status'], string> = {
+  queued: 'Queued',
+  extracting: 'Reading...',
+  ready: 'Ready',
+  failed: 'Failed',
+};
+
+const STATUS_CLASSES: Record<BatchItem['status'], string> = {
+  queued: 'bg-gray-100 text-gray-600',
+  extracting: 'bg-blue-100 text-blue-700',
+  ready: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+const BatchScanSession: React.FC<BatchScanSessionProps> = ({ dateOrder, locations, imageProcessing, initialImages, onSaveItem, onClose }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isReviewing, setIsReviewing] = useState<boolean>(false);
+  const [isCommitting, setIsCommitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const aiProvider = useAiProvider();
+  const limiterRef = useRef(createConcurrencyLimiter(EXTRACTION_CONCURRENCY));
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Leaving the session abandons any extractions still queued or running
+  useEffect(() => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  const updateItem = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setItems(prevItems => prevItems.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const extractItem = useCallback((id: string, imageBase64: string) => {
+    updateItem(id, { status: 'queued', error: undefined });
+    const queueExtraction = () => limiterRef.current.run(async () => {
+      // Read when the task starts, not when it was queued, so it uses the session's current controller
+      const signal = abortRef.current?.signal;
+      if (signal?.aborted) return;
+      updateItem(id, { status: 'extracting' });
+      try {
+        const details = await aiProvider.extractProductDetails(imageBase64, { signal });
+        const parsed = parseExpiryText(details.expiryText, dateOrder);
+        const parsedExpiry = parsed.labelType === 'unknown' ? { ...parsed, labelType: details.labelType } : parsed;
+        updateItem(id, {
+          status: 'ready',
+          aiName: details.name,
+          name: details.name,
+          parsedExpiry,
+          expiryDate: parsedExpiry.isoDate ?? '',
+          expiryLabelType: parsedExpiry.labelType,
+          isExpiryConfirmed: false,
+        });
+      } catch (err) {
+        if (isAiError(err) && err.kind === 'cancelled') {
+          // Cancelled by an old controller while the session is still open (e.g. StrictMode re-running
+          // the effect), so send it again rather than leaving the item stuck on "Reading..."
+          if (abortRef.current && !abortRef.current.signal.aborted) {
+            updateItem(id, { status: 'queued' });
+            queueExtraction();
+          }
+          return;
+        }
+        console.error(err);
+        updateItem(id, { status: 'failed', error: err instanceof Error ? err.message : "Failed to read this item." });
+      }
+    });
+    queueExtraction();
+  }, [aiProvider, dateOrder, updateItem]);
+
+  const handleCapture = useCallback((imageBase64: string, thumbnail: string) => {
+    const id = crypto.randomUUID();
+    setItems(prevItems => [
+      ...prevItems,
+      {
+        id,
+        imageBase64,
+        thumbnail,
+        status: 'queued',
+        aiName: '',
+        parsedExpiry: null,
+        name: '',
+        expiryDate: '',
+        expiryLabelType: 'unknown',
+        isExpiryConfirmed: false,
+        hasNoExpiryDate: false,
+        stock: DEFAULT_STOCK,
+        include: true,
+      },
+    ]);
+    extractItem(id, imageBase64);
+  }, [extractItem]);
+
+  // Taken once, so a re-run of the effect doesn't add the photos twice
+  const initialImagesRef = useRef(initialImages);
+  useEffect(() => {
+    const images = initialImagesRef.current ?? [];
+    initialImagesRef.current = undefined;
+    images.forEach(image => handleCapture(image.ocrImage, image.thumbnail));
+  }, [handleCapture]);
+
+  const handleUpload = async (files: File[]) => {
+    setError(null);
+    for (const file of files) {
+      try {
+        const { ocrImage, thumbnail } = await preprocessFile(file, imageProcessing);
+        handleCapture(ocrImage, thumbnail);
+      } catch (err) {
+        console.error("Failed to read uploaded image", err);
+        setError(err instanceof Error ? err.message : "Could not read one of the photos.");
+      }
+    }
+  };
+
+  const isExtracting = items.some(item => item.status === 'queued' || item.status === 'extracting');
+  const includedItems = items.filter(item => item.include);
+  const needsDateCheck = (item: BatchItem) => !!item.parsedExpiry && needsConfirmation(item.parsedExpiry) && !item.isExpiryConfirmed;
+  const isMissingDate = (item: BatchItem) => !item.hasNoExpiryDate && !parseIsoDate(item.expiryDate);
+
+  const handleCommit = async () => {
+    if (includedItems.some(item => !item.name.trim())) {
+      setError("Every included item needs a name. Fill it in or untick the item.");
+      return;
+    }
+    if (includedItems.some(isMissingDate)) {
+      setError("Every included item needs an expiry date. Fill it in, tick \"No date\", or untick the item.");
+      return;
+    }
+    if (includedItems.some(needsDateCheck)) {
+      setError("Some dates could be read more than one way. Please check the highlighted dates.");
+      return;
+    }
+    setError(null);
+    setIsCommitting(true);
+    // Saved items leave the batch one by one, so after a failure only the unsaved ones are retried
+    for (const item of includedItems) {
+      try {
+        await onSaveItem(item);
+        setItems(prevItems => prevItems.filter(other => other.id !== item.id));
+      } catch (err) {
+        console.error("Failed to save batch item", err);
+        setError("Could not save all items. The ones still listed were not saved, please try again.");
+        setIsCommitting(false);
+        return;
+      }
+    }
+    setIsCommitting(false);
+    onClose();
+  };
+
+  const renderStatus = (item: BatchItem) => (
+    <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_CLASSES[item.status]}`}>
+      {item.status === 'extracting' && <Spinner size="sm" color="text-blue-700" />}
+      {STATUS_LABELS[item.status]}
+    </span>
+  );
+
+  if (!isReviewing) {
+    return (
+      <div className="w-full max-w-lg mx-auto space-y-4">
+        <CameraCapture
+          onCapture={handleCapture}
+          imageProcessing={imageProcessing}
+          captureLabel={`Capture Item ${items.length + 1}`}
+          frameHint="Product name and date"
+          instructionText="Fit each product's name and date label in one photo. Keep going, we'll read them in the background."
+          onClose={onClose}
+        />
+        <PhotoDropZone onFiles={handleUpload} label="Add photos from your device" hint="or drop several photos here at once" />
+        {error && <p className="text-red-500 bg-red-100 p-3 rounded-md text-sm">{error}</p>}
+        {items.length > 0 && (
+          <div className="p-4 bg-white rounded-lg shadow space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium text-neutral-dark">{items.length} item{items.length === 1 ? '' : 's'} captured</p>
+              <button
+                onClick={() => setIsReviewing(true)}
+                className="px-4 py-2 bg-secondary text-white rounded-lg text-sm font-semibold hover:bg-green-600 transition-colors"
+              >
+                Review All
+              </button>
+            </div>
+            <ul className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+              {items.map(item => (
+                <li key={item.id} className="text-center">
+                  <img src={item.thumbnail} alt={item.name || 'Captured item'} className="rounded-md object-cover h-16 w-full border" />
+                  <div className="mt-1">{renderStatus(item)}</div>
+                  {item.status === 'failed' && (
+                    <button onClick={() => extractItem(item.id, item.imageBase64)} className="text-xs text-primary hover:underline">Retry</button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 bg-white rounded-xl shadow-xl w-full max-w-5xl mx-auto space-y-4">
+      <h2 className="text-2xl font-poppins font-semibold text-center text-neutral-dark">Review Batch</h2>
+      {error && <p className="text-red-500 bg-red-100 p-3 rounded-md text-sm">{error}</p>}
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-neutral border-b">
+              <th className="p-2">Add</th>
+              <th className="p-2">Photo</th>
+              <th className="p-2">Name</th>
+              <th className="p-2">Expiry</th>
+              <th className="p-2">Quantity</th>
+              <th className="p-2">Location</th>
+              <th className="p-2">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(item => (
+              <tr key={item.id} className={`border-b align-top ${item.include ? '' : 'opacity-50'}`}>
+                <td className="p-2">
+                  <input
+                    type="checkbox"
+                    checked={item.include}
+                    onChange={(e) => updateItem(item.id, { include: e.target.checked })}
+                    aria-label="Include this item"
+                  />
+                </td>
+                <td className="p-2">
+                  <img src={item.thumbnail} alt={item.name || 'Captured item'} className="rounded-md object-cover h-14 w-14 border" />
+                </td>
+                <td className="p-2">
+                  <input
+                    type="text"
+                    value={item.name}
+                    onChange={(e) => updateItem(item.id, { name: e.target.value })}
+                    placeholder="Product name"
+                    className="w-40 p-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+                  />
+                </td>
+                <td className="p-2 space-y-1">
+                  <input
+                    type="date"
+                    value={item.expiryDate}
+                    disabled={item.hasNoExpiryDate}
+                    onChange={(e) => updateItem(item.id, { expiryDate: e.target.value, isExpiryConfirmed: true, hasNoExpiryDate: false })}
+                    className={`p-2 border rounded-md focus:ring-primary focus:border-primary disabled:bg-gray-100 ${needsDateCheck(item) || (item.status !== 'queued' && item.status !== 'extracting' && isMissingDate(item)) ? 'border-amber-400 bg-amber-50' : 'border-gray-300'}`}
+                  />
+                  <label className="flex items-center gap-1 text-xs text-neutral">
+                    <input
+                      type="checkbox"
+                      checked={item.hasNoExpiryDate}
+                      onChange={(e) => updateItem(item.id, { hasNoExpiryDate: e.target.checked, ...(e.target.checked ? { expiryDate: '', isExpiryConfirmed: true } : {}) })}
+                    />
+                    No date
+                  </label>
+                  <select
+                    value={item.expiryLabelType}
+                    onChange={(e) => updateItem(item.id, { expiryLabelType: e.target.value as ExpiryLabelType })}
+                    className="block p-1 border border-gray-300 rounded-md text-xs"
+                    aria-label="Date type"
+                  >
+                    {(Object.keys(EXPIRY_LABEL_NAMES) as ExpiryLabelType[]).map(type => (
+                      <option key={type} value={type}>{EXPIRY_LABEL_NAMES[type]}</option>
+                    ))}
+                  </select>
+                  {item.parsedExpiry?.rawText && (
+                    <p className="text-xs text-gray-400 font-mono">"{item.parsedExpiry.rawText}"</p>
+                  )}
+                  {needsDateCheck(item) && (
+                    <button onClick={() => updateItem(item.id, { isExpiryConfirmed: true })} className="text-xs text-amber-700 hover:underline">
+                      Date looks right
+                    </button>
+                  )}
+                </td>
+                <td className="p-2">
+                  <div className="flex gap-1">
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={item.stock.quantity}
+                      onChange={(e) => updateItem(item.id, { stock: { ...item.stock, quantity: Math.max(0, parseFloat(e.target.value) || 0) } })}
+                      className="w-16 p-2 border border-gray-300 rounded-md"
+                      aria-label="Quantity"
+                    />
+                    <select
+                      value={item.stock.unit}
+                      onChange={(e) => updateItem(item.id, { stock: { ...item.stock, unit: e.target.value } })}
+                      className="p-2 border border-gray-300 rounded-md"
+                      aria-label="Unit"
+                    >
+                      {UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                    </select>
+                  </div>
+                </td>
+                <td className="p-2">
+                  <select
+                    value={item.stock.location}
+                    onChange={(e) => updateItem(item.id, { stock: { ...item.stock, location: e.target.value } })}
+                    className="p-2 border border-gray-300 rounded-md"
+                    aria-label="Location"
+                  >
+                    {locations.map(location => <option key={location} value={location}>{formatLocation(location)}</option>)}
+                  </select>
+                </td>
+                <td className="p-2 space-y-1">
+                  {renderStatus(item)}
+                  {item.status === 'failed' && (
+                    <>
+                      <p className="text-xs text-red-600 max-w-[10rem]">{item.error}</p>
+                      <button onClick={() => extractItem(item.id, item.imageBase64)} className="text-xs text-primary hover:underline">Retry</button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex flex-col sm:flex-row gap-3 pt-2">
+        <button
+          onClick={handleCommit}
+          disabled={isExtracting || isCommitting || includedItems.length === 0}
+          className="flex-1 bg-secondary text-white px-6 py-3 rounded-lg font-semibold hover:bg-green-600 transition-colors shadow-md disabled:bg-green-300 disabled:cursor-not-allowed"
+        >
+          {isCommitting ? 'Saving...' : isExtracting ? 'Still reading items...' : `Add ${includedItems.length} Item${includedItems.length === 1 ? '' : 's'} to Pantry`}
+        </button>
+        <button
+          onClick={() => setIsReviewing(false)}
+          className="flex-1 bg-amber-500 text-white px-6 py-3 rounded-lg font-semibold hover:bg-amber-600 transition-colors shadow-md"
+        >
+          Back to Camera
+        </button>
+      </div>
+      <button onClick={onClose} className="w-full text-center text-neutral hover:text-neutral-dark mt-2 text-sm">
+        Discard Batch
+      </button>
+    </div>
+  );
+};
+
+export default BatchScanSession;
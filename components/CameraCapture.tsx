@@ -1,40 +1,84 @@
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import Spinner from './Spinner';
+import { createBarcodeDetector, detectRetailBarcode } from '../services/barcodeScanner';
+import { FRAME_GUIDE, ImageProcessingSettings, preprocessFile, preprocessImage, previewRectToSource } from '../services/imagePreprocessing';
+import {
+  CameraControls,
+  NO_CAMERA_CONTROLS,
+  focusAt,
+  getCameraControls,
+  listCameras,
+  loadPreferredCamera,
+  openCamera,
+  savePreferredCamera,
+  setTorch,
+  setZoom,
+} from '../services/cameraControls';
 
 interface CameraCaptureProps {
-  onCapture: (imageBase64: string) => void;
+  onCapture: (imageBase64: string, thumbnail: string) => void; // Both JPEG data URLs, already cropped and downscaled
+  imageProcessing: ImageProcessingSettings;
   onClose?: () => void; // Optional: if you want a close button within the component
   captureLabel: string;
   instructionText: string;
+  frameHint?: string; // Shown in the framing guide, e.g. what should be lined up inside it
+  onBarcodeDetected?: (barcode: string) => void; // Optional: watch the live video for EAN/UPC barcodes
 }
 
-const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose, captureLabel, instructionText }) => {
+const BARCODE_SCAN_INTERVAL_MS = 400;
+const FOCUS_MARKER_MS = 800;
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, imageProcessing, onClose, captureLabel, instructionText, frameHint, onBarcodeDetected }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const streamRef = useRef<MediaStream | null>(null); // For stopping the camera on unmount
+  const cameraRequestRef = useRef<number>(0); // Bumped by every start and by unmount, so a slow getUserMedia can tell it is stale
   const [stream, setStream] = useState<MediaStream | null>(null);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string>('');
+  const [controls, setControls] = useState<CameraControls>(NO_CAMERA_CONTROLS);
+  const [isTorchOn, setIsTorchOn] = useState<boolean>(false);
+  const [zoom, setZoomLevel] = useState<number>(1);
+  const [focusMarker, setFocusMarker] = useState<{ x: number; y: number } | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true); // For initial camera loading
+  const [isScanningBarcodes, setIsScanningBarcodes] = useState<boolean>(false);
+
+  // Kept in a ref so a new callback identity doesn't restart the detection loop
+  const onBarcodeDetectedRef = useRef(onBarcodeDetected);
+  onBarcodeDetectedRef.current = onBarcodeDetected;
+  const wantsBarcodes = !!onBarcodeDetected;
 
-  const startCamera = useCallback(async () => {
+  const startCamera = useCallback(async (preferredDeviceId: string | null = loadPreferredCamera()) => {
+    const request = ++cameraRequestRef.current;
+    const isStale = () => request !== cameraRequestRef.current;
     setIsLoading(true);
     setError(null);
     try {
-      if (stream) { // Stop existing stream before starting a new one
-        stream.getTracks().forEach(track => track.stop());
+      streamRef.current?.getTracks().forEach(track => track.stop()); // Stop existing stream before starting a new one
+      const mediaStream = await openCamera(preferredDeviceId);
+      if (isStale()) {
+        // Unmounted or superseded while waiting for permission; nobody will ever stop this stream otherwise
+        mediaStream.getTracks().forEach(track => track.stop());
+        return;
       }
-      const mediaStream = await navigator.mediaDevices.getUserMedia({ 
-        video: { 
-          facingMode: 'environment', // Prefer rear camera
-          width: { ideal: 1280 },
-          height: { ideal: 720 } 
-        } 
-      });
+      streamRef.current = mediaStream;
       setStream(mediaStream);
       if (videoRef.current) {
         videoRef.current.srcObject = mediaStream;
       }
+      const [track] = mediaStream.getVideoTracks();
+      const trackControls = getCameraControls(track);
+      setControls(trackControls);
+      setIsTorchOn(false);
+      setZoomLevel((track.getSettings() as MediaTrackSettings & { zoom?: number }).zoom ?? trackControls.zoom?.min ?? 1);
+      setDeviceId(track.getSettings().deviceId ?? '');
+      const availableCameras = await listCameras();
+      if (!isStale()) setCameras(availableCameras);
     } catch (err) {
+      if (isStale()) return;
       console.error("Error accessing camera:", err);
       if (err instanceof Error) {
         if (err.name === "NotAllowedError") {
@@ -48,47 +92,140 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose, captu
         setError("An unknown error occurred while accessing the camera.");
       }
     } finally {
-      setIsLoading(false);
+      if (!isStale()) setIsLoading(false);
     }
-  }, [stream]); // Add stream to dependencies to manage re-initialization if needed
+  }, []);
 
   useEffect(() => {
     startCamera();
     return () => {
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
+      cameraRequestRef.current += 1;
+      streamRef.current?.getTracks().forEach(track => track.stop());
+    };
+  }, [startCamera]); // Run once on mount to initialize camera
+
+  useEffect(() => {
+    if (!wantsBarcodes || !stream || isLoading || error) return;
+    const detector = createBarcodeDetector();
+    if (!detector) return; // Not supported here; the photo path still works
+
+    setIsScanningBarcodes(true);
+    let isDetecting = false;
+    let isDone = false;
+    const intervalId = window.setInterval(async () => {
+      const video = videoRef.current;
+      if (isDetecting || isDone || !video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+      isDetecting = true;
+      try {
+        const barcode = await detectRetailBarcode(detector, video);
+        if (barcode && !isDone) {
+          isDone = true;
+          window.clearInterval(intervalId);
+          onBarcodeDetectedRef.current?.(barcode);
+        }
+      } catch (err) {
+        console.error("Barcode detection failed:", err);
+      } finally {
+        isDetecting = false;
       }
+    }, BARCODE_SCAN_INTERVAL_MS);
+
+    return () => {
+      isDone = true;
+      window.clearInterval(intervalId);
+      setIsScanningBarcodes(false);
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []); // Run once on mount to initialize camera
+  }, [wantsBarcodes, stream, isLoading, error]);
 
   const handleCanPlay = () => {
      setIsLoading(false); // Camera is ready
   };
 
+  // Goes through the same processing as a camera frame, minus the crop
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return;
+    setUploadError(null);
+    try {
+      const { ocrImage, thumbnail } = await preprocessFile(file, imageProcessing);
+      onCapture(ocrImage, thumbnail);
+    } catch (err) {
+      console.error("Failed to read uploaded image:", err);
+      setUploadError(err instanceof Error ? err.message : "Could not read that photo.");
+    }
+  };
+
+  const handleCameraChange = (nextDeviceId: string) => {
+    savePreferredCamera(nextDeviceId);
+    startCamera(nextDeviceId);
+  };
+
+  // Camera controls are best effort: a refusal leaves the camera as it was
+  const handleToggleTorch = async () => {
+    const track = stream?.getVideoTracks()[0];
+    if (!track) return;
+    try {
+      await setTorch(track, !isTorchOn);
+      setIsTorchOn(!isTorchOn);
+    } catch (err) {
+      console.error("Failed to switch the torch:", err);
+    }
+  };
+
+  const handleZoomChange = async (level: number) => {
+    const track = stream?.getVideoTracks()[0];
+    if (!track) return;
+    setZoomLevel(level);
+    try {
+      await setZoom(track, level);
+    } catch (err) {
+      console.error("Failed to zoom:", err);
+    }
+  };
+
+  const handleTapToFocus = async (event: React.MouseEvent<HTMLDivElement>) => {
+    const video = videoRef.current;
+    const track = stream?.getVideoTracks()[0];
+    if (!controls.tapToFocus || !video || !track || !video.videoWidth) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const tap = { x: (event.clientX - bounds.left) / bounds.width, y: (event.clientY - bounds.top) / bounds.height };
+    setFocusMarker(tap);
+    window.setTimeout(() => setFocusMarker(null), FOCUS_MARKER_MS);
+    // The point has to be given in frame coordinates, which differ from the preview's where it is cropped
+    const frame = { width: video.videoWidth, height: video.videoHeight };
+    const point = previewRectToSource({ ...tap, width: 0, height: 0 }, frame, { width: bounds.width, height: bounds.height });
+    try {
+      await focusAt(track, { x: point.x / frame.width, y: point.y / frame.height });
+    } catch (err) {
+      console.error("Failed to focus:", err);
+    }
+  };
+
   const handleCapture = () => {
-    if (videoRef.current && canvasRef.current && stream) {
-      const video = videoRef.current;
-      const canvas = canvasRef.current;
-      // Set canvas dimensions to video dimensions to capture full frame
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      
-      const context = canvas.getContext('2d');
-      if (context) {
-        context.drawImage(video, 0, 0, canvas.width, canvas.height);
-        const dataUrl = canvas.toDataURL('image/jpeg', 0.9); // Use JPEG for smaller size, 0.9 quality
-        onCapture(dataUrl);
-      }
-    } else {
+    const video = videoRef.current;
+    if (!video || !stream || !video.videoWidth) {
       setError("Failed to capture image. Camera not ready.");
+      return;
+    }
+    const frame = { width: video.videoWidth, height: video.videoHeight };
+    const crop = imageProcessing.cropToFrame
+      ? previewRectToSource(FRAME_GUIDE, frame, { width: video.clientWidth, height: video.clientHeight })
+      : null;
+    try {
+      const { ocrImage, thumbnail } = preprocessImage(video, frame, crop, imageProcessing);
+      onCapture(ocrImage, thumbnail);
+    } catch (err) {
+      console.error("Failed to process captured image:", err);
+      setError("Failed to capture image. Please try again.");
     }
   };
 
   return (
     <div className="flex flex-col items-center p-4 bg-neutral-light/50 rounded-lg shadow-md w-full max-w-lg mx-auto">
       <p className="text-md font-poppins text-neutral-dark mb-3 text-center">{instructionText}</p>
-      <div className="relative w-full aspect-[4/3] bg-neutral-dark rounded-md overflow-hidden shadow-inner mb-4">
+      <div
+        className={`relative w-full aspect-[4/3] bg-neutral-dark rounded-md overflow-hidden shadow-inner mb-4 ${controls.tapToFocus ? 'cursor-crosshair' : ''}`}
+        onClick={handleTapToFocus}
+      >
         {isLoading && !error && (
           <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50">
             <Spinner color="text-white" />
@@ -103,14 +240,49 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose, captu
           className={`w-full h-full object-cover ${isLoading || error ? 'hidden' : ''}`}
           onCanPlay={handleCanPlay}
         />
-         {error && (
+        {!isLoading && !error && (
+          // When cropping, only what is inside this box is kept and the shadow dims the rest of the preview
+          <div
+            className={`absolute border-2 border-dashed border-white rounded-lg pointer-events-none flex items-end justify-center ${imageProcessing.cropToFrame ? 'shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]' : ''}`}
+            style={{
+              left: `${FRAME_GUIDE.x * 100}%`,
+              top: `${FRAME_GUIDE.y * 100}%`,
+              width: `${FRAME_GUIDE.width * 100}%`,
+              height: `${FRAME_GUIDE.height * 100}%`,
+            }}
+          >
+            {frameHint && <span className="mb-1 px-2 py-0.5 rounded bg-black bg-opacity-50 text-white text-xs">{frameHint}</span>}
+          </div>
+        )}
+        {focusMarker && (
+          <div
+            className="absolute h-12 w-12 -ml-6 -mt-6 border-2 border-yellow-300 rounded-full pointer-events-none"
+            style={{ left: `${focusMarker.x * 100}%`, top: `${focusMarker.y * 100}%` }}
+          />
+        )}
+        {controls.torch && !isLoading && !error && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation(); // Not a tap to focus
+              handleToggleTorch();
+            }}
+            className={`absolute top-2 right-2 p-2 rounded-full ${isTorchOn ? 'bg-yellow-300 text-neutral-dark' : 'bg-black bg-opacity-50 text-white'}`}
+            aria-label={isTorchOn ? 'Turn torch off' : 'Turn torch on'}
+            aria-pressed={isTorchOn}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M11.3 1.046A1 1 0 0112 2v5h4a1 1 0 01.82 1.573l-7 10A1 1 0 018 18v-5H4a1 1 0 01-.82-1.573l7-10a1 1 0 011.12-.38z" clipRule="evenodd" />
+            </svg>
+          </button>
+        )}
+        {error && (
           <div className="absolute inset-0 flex flex-col items-center justify-center p-4 bg-red-100 text-red-700">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
             <p className="text-center font-medium">{error}</p>
             <button
-                onClick={startCamera}
+                onClick={() => startCamera()}
                 className="mt-4 px-4 py-2 bg-primary text-white rounded-md hover:bg-primary-dark transition-colors text-sm"
             >
                 Try Again
@@ -118,7 +290,42 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose, captu
           </div>
         )}
       </div>
-      <canvas ref={canvasRef} className="hidden"></canvas>
+      {!error && !isLoading && (cameras.length > 1 || controls.zoom) && (
+        <div className="w-full flex flex-wrap items-center gap-3 mb-3 text-sm">
+          {cameras.length > 1 && (
+            <select
+              value={deviceId}
+              onChange={(e) => handleCameraChange(e.target.value)}
+              className="flex-1 min-w-0 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-primary"
+              aria-label="Camera"
+            >
+              {cameras.map((camera, index) => (
+                <option key={camera.deviceId} value={camera.deviceId}>{camera.label || `Camera ${index + 1}`}</option>
+              ))}
+            </select>
+          )}
+          {controls.zoom && (
+            <label className="flex-1 flex items-center gap-2 text-neutral">
+              Zoom
+              <input
+                type="range"
+                min={controls.zoom.min}
+                max={controls.zoom.max}
+                step={controls.zoom.step}
+                value={zoom}
+                onChange={(e) => handleZoomChange(Number(e.target.value))}
+                className="flex-1"
+              />
+            </label>
+          )}
+        </div>
+      )}
+      {!error && !isLoading && controls.tapToFocus && (
+        <p className="text-xs text-neutral mb-3 text-center">Tap the picture to focus.</p>
+      )}
+      {isScanningBarcodes && (
+        <p className="text-xs text-neutral mb-3 text-center">Looking for a barcode... or capture a photo instead.</p>
+      )}
       {!error && !isLoading && (
         <button
           onClick={handleCapture}
@@ -133,6 +340,20 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose, captu
           <span>{captureLabel}</span>
         </button>
       )}
+      <button onClick={() => uploadInputRef.current?.click()} className="mt-3 text-sm text-primary hover:underline">
+        {error ? 'Upload a photo instead' : 'or upload a photo'}
+      </button>
+      <input
+        ref={uploadInputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => {
+          handleUpload(e.target.files?.[0]);
+          e.target.value = ''; // Let the same file be picked again
+        }}
+      />
+      {uploadError && <p className="text-xs text-red-600 mt-1 text-center">{uploadError}</p>}
       {onClose && (
          <button
           onClick={onClose}
@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import { Product, Recipe } from '../types';
+import { findPantryProduct } from '../services/recipeRanking';
+import { formatQuantity, getStock } from '../services/pantryInventory';
+
+export interface PantryUsage {
+  product: Product;
+  amount: number;
+}
+
+interface CookRecipeDialogProps {
+  recipe: Recipe;
+  products: Product[];
+  onConfirm: (usages: PantryUsage[]) => void;
+  onCancel: () => void;
+}
+
+interface UsageRow {
+  product: Product;
+  amount: number;
+  include: boolean;
+}
+
+// Records that a recipe was cooked, optionally taking what it used out of the pantry
+const CookRecipeDialog: React.FC<CookRecipeDialogProps> = ({ recipe, products, onConfirm, onCancel }) => {
+  const initialRows = useMemo(() => {
+    const today = new Date();
+    const matched = new Map<string, Product>();
+    recipe.usesPantryItems.forEach(itemName => {
+      const product = findPantryProduct(itemName, products, today);
+      if (product) matched.set(product.id, product);
+    });
+    return [...matched.values()].map(product => ({
+      product,
+      amount: Math.min(1, getStock(product).quantity),
+      include: true,
+    }));
+  }, [recipe, products]);
+
+  const [rows, setRows] = useState<UsageRow[]>(initialRows);
+
+  const updateRow = (productId: string, changes: Partial<UsageRow>) => {
+    setRows(prevRows => prevRows.map(row => (row.product.id === productId ? { ...row, ...changes } : row)));
+  };
+
+  const handleConfirm = () => {
+    onConfirm(rows.filter(row => row.include && row.amount > 0).map(({ product, amount }) => ({ product, amount })));
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center z-50 p-4 transition-opacity"
+      aria-labelledby="cook-recipe-dialog-title"
+      role="dialog"
+      aria-modal="true"
+      onClick={onCancel}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()} // Prevent closing modal when clicking inside
+      >
+        <header className="p-5 border-b border-gray-200">
+          <h2 id="cook-recipe-dialog-title" className="text-xl font-poppins font-semibold text-neutral-dark">
+            Cooked {recipe.recipeName}
+          </h2>
+          <p className="text-sm text-neutral mt-1">Take what you used out of the pantry?</p>
+        </header>
+
+        <div className="p-6 overflow-y-auto flex-grow space-y-3">
+          {rows.length === 0 && (
+            <p className="text-sm text-gray-500">None of this recipe's ingredients match items in your pantry.</p>
+          )}
+          {rows.map(({ product, amount, include }) => {
+            const stock = getStock(product);
+            return (
+              <div key={product.id} className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={include}
+                  onChange={(e) => updateRow(product.id, { include: e.target.checked })}
+                  aria-label={`Use ${product.name}`}
+                />
+                <span className="flex-grow text-sm text-neutral-dark">
+                  {product.name}
+                  <span className="block text-xs text-gray-500">{formatQuantity(stock)} left</span>
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  max={stock.quantity}
+                  step="any"
+                  value={amount}
+                  disabled={!include}
+                  onChange={(e) => updateRow(product.id, { amount: Math.min(stock.quantity, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                  className="w-20 p-2 border border-gray-300 rounded-md disabled:bg-gray-100"
+                  aria-label={`Amount of ${product.name} used`}
+                />
+                <span className="text-xs text-gray-500 w-10">{stock.unit}</span>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-5 border-t border-gray-200 flex gap-3">
+          <button
+            onClick={handleConfirm}
+            className="flex-1 bg-secondary text-white px-4 py-2 rounded-lg font-semibold hover:bg-green-600 transition-colors"
+          >
+            {rows.some(row => row.include && row.amount > 0) ? 'Record & Update Pantry' : 'Record as Cooked'}
+          </button>
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-lg text-neutral hover:text-neutral-dark"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CookRecipeDialog;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { ExpiryStatus } from '../types';
+import { EXPIRY_STATUS_LABELS } from '../services/expiryStatus';
+import { EXPIRY_STATUS_STYLES } from './expiryStatusStyles';
+
+interface ExpiryStatusSummaryProps {
+  counts: Record<ExpiryStatus, number>;
+  expiringSoonDays: number;
+  selected?: ExpiryStatus[];
+  onToggle?: (status: ExpiryStatus) => void; // Makes each pill a filter button
+}
+
+const STATUS_ORDER: ExpiryStatus[] = [
+  ExpiryStatus.EXPIRED,
+  ExpiryStatus.EXPIRES_TODAY,
+  ExpiryStatus.EXPIRING_SOON,
+  ExpiryStatus.FRESH,
+  ExpiryStatus.UNKNOWN,
+];
+
+const ExpiryStatusSummary: React.FC<ExpiryStatusSummaryProps> = ({ counts, expiringSoonDays, selected = [], onToggle }) => {
+  return (
+    <div className="flex flex-wrap justify-center gap-2 mb-6" role={onToggle ? 'group' : undefined} aria-label={onToggle ? 'Filter by expiry status' : undefined}>
+      {STATUS_ORDER.map(status => {
+        const isSelected = selected.includes(status);
+        // With nothing selected every status is shown, so none of them is dimmed
+        const isDimmed = selected.length > 0 && !isSelected;
+        const content = (
+          <>
+            <span className={`h-2.5 w-2.5 rounded-full ${EXPIRY_STATUS_STYLES[status].dot}`}></span>
+            <span>{EXPIRY_STATUS_LABELS[status]}</span>
+            <span className="font-bold">{counts[status]}</span>
+          </>
+        );
+        const className = `flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium ${EXPIRY_STATUS_STYLES[status].badge}`;
+        const title = status === ExpiryStatus.EXPIRING_SOON ? `Within ${expiringSoonDays} days` : undefined;
+        return onToggle ? (
+          <button
+            key={status}
+            onClick={() => onToggle(status)}
+            aria-pressed={isSelected}
+            className={`${className} transition-opacity ${isSelected ? 'ring-2 ring-offset-1 ring-neutral-dark' : ''} ${isDimmed ? 'opacity-50 hover:opacity-80' : ''}`}
+            title={title}
+          >
+            {content}
+          </button>
+        ) : (
+          <div key={status} className={className} title={title}>
+            {content}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ExpiryStatusSummary;
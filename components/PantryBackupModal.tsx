@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { usePantryRepository } from './PantryRepositoryContext';
+import {
+  PantryBackup,
+  ImportMode,
+  BackupFormatError,
+  createPantryBackup,
+  parsePantryBackup,
+  importPantryBackup,
+  toPantryCsv,
+} from '../services/pantryBackup';
+import { downloadTextFile } from '../services/fileExport';
+import Spinner from './Spinner';
+
+interface PantryBackupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// A backup read from a file, waiting for the user to choose how to import it
+interface PendingImport {
+  fileName: string;
+  backup: PantryBackup;
+  warnings: string[];
+}
+
+const todayStamp = () => new Date().toISOString().slice(0, 10);
+
+const PantryBackupModal: React.FC<PantryBackupModalProps> = ({ isOpen, onClose }) => {
+  const repository = usePantryRepository();
+  const [includeImages, setIncludeImages] = useState<boolean>(false);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [isWorking, setIsWorking] = useState<boolean>(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const run = async (task: () => Promise<void>, failureMessage: string) => {
+    setIsWorking(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await task();
+    } catch (e) {
+      console.error(failureMessage, e);
+      setError(e instanceof BackupFormatError ? e.message : failureMessage);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleExportJson = () => run(async () => {
+    const backup = await createPantryBackup(repository, includeImages);
+    downloadTextFile(`pantry-backup-${todayStamp()}.json`, JSON.stringify(backup, null, 2), 'application/json');
+    setMessage(`Exported ${backup.products.length} item(s).`);
+  }, "Could not export your pantry. Please try again.");
+
+  const handleExportCsv = () => run(async () => {
+    const products = await repository.list();
+    downloadTextFile(`pantry-${todayStamp()}.csv`, toPantryCsv(products), 'text/csv');
+    setMessage(`Exported ${products.length} item(s).`);
+  }, "Could not export your pantry. Please try again.");
+
+  const handleChooseFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow choosing the same file again
+    if (!file) return;
+    setPendingImport(null);
+    run(async () => {
+      const { backup, warnings } = parsePantryBackup(await file.text());
+      setPendingImport({ fileName: file.name, backup, warnings });
+    }, "Could not read that file.");
+  };
+
+  const handleImport = () => {
+    if (!pendingImport) return;
+    run(async () => {
+      const summary = await importPantryBackup(repository, pendingImport.backup, importMode);
+      setPendingImport(null);
+      setMessage(
+        `Imported: ${summary.added} added, ${summary.updated} updated` +
+        (importMode === 'replace' ? `, ${summary.removed} removed.` : '.')
+      );
+    }, "The import failed, so your pantry has been left unchanged. You can try importing the file again.");
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center z-50 p-4 transition-opacity"
+      aria-labelledby="pantry-backup-modal-title"
+      role="dialog"
+      aria-modal="true"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()} // Prevent closing modal when clicking inside
+      >
+        <header className="p-5 border-b border-gray-200 flex justify-between items-center">
+          <h2 id="pantry-backup-modal-title" className="text-2xl font-poppins font-semibold text-neutral-dark">
+            Backup &amp; Restore
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="Close backup and restore"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </header>
+
+        <div className="p-6 overflow-y-auto flex-grow space-y-6">
+          <section>
+            <h3 className="text-sm font-medium text-neutral-dark mb-2">Export</h3>
+            <label className="flex items-center gap-2 text-sm text-neutral-dark mb-3">
+              <input type="checkbox" checked={includeImages} onChange={(e) => setIncludeImages(e.target.checked)} />
+              Include photos (much larger file)
+            </label>
+            <div className="flex gap-3">
+              <button
+                onClick={handleExportJson}
+                disabled={isWorking}
+                className="flex-1 bg-primary text-white px-4 py-2 rounded-lg font-semibold hover:bg-primary-dark transition-colors disabled:opacity-50"
+              >
+                Backup (JSON)
+              </button>
+              <button
+                onClick={handleExportCsv}
+                disabled={isWorking}
+                className="flex-1 border border-primary text-primary px-4 py-2 rounded-lg font-semibold hover:bg-blue-50 transition-colors disabled:opacity-50"
+              >
+                Spreadsheet (CSV)
+              </button>
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-medium text-neutral-dark mb-2">Import a backup</h3>
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={handleChooseFile}
+              disabled={isWorking}
+              className="block w-full text-sm text-neutral"
+              aria-label="Choose a backup file"
+            />
+            {pendingImport && (
+              <div className="mt-4 p-4 bg-neutral-light/50 rounded-lg border border-gray-200 space-y-3">
+                <p className="text-sm text-neutral-dark">
+                  <span className="font-semibold">{pendingImport.fileName}</span>: {pendingImport.backup.products.length} item(s),
+                  exported {new Date(pendingImport.backup.exportedAt).toLocaleString()}
+                  {Object.keys(pendingImport.backup.images).length === 0 && ' (no photos)'}
+                </p>
+                {pendingImport.warnings.length > 0 && (
+                  <details className="text-xs text-amber-700">
+                    <summary>{pendingImport.warnings.length} problem(s) were fixed or skipped</summary>
+                    <ul className="list-disc list-inside mt-1">
+                      {pendingImport.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                    </ul>
+                  </details>
+                )}
+                <fieldset className="space-y-1 text-sm text-neutral-dark">
+                  <label className="flex items-center gap-2">
+                    <input type="radio" name="importMode" checked={importMode === 'merge'} onChange={() => setImportMode('merge')} />
+                    Merge with my pantry
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input type="radio" name="importMode" checked={importMode === 'replace'} onChange={() => setImportMode('replace')} />
+                    Replace my pantry
+                  </label>
+                </fieldset>
+                {importMode === 'replace' && (
+                  <p className="text-xs text-red-600">Items that aren't in the backup will be deleted.</p>
+                )}
+                <button
+                  onClick={handleImport}
+                  disabled={isWorking}
+                  className={`w-full text-white px-4 py-2 rounded-lg font-semibold transition-colors disabled:opacity-50 ${importMode === 'replace' ? 'bg-red-500 hover:bg-red-600' : 'bg-secondary hover:bg-green-600'}`}
+                >
+                  {importMode === 'replace' ? 'Replace Pantry' : 'Import'}
+                </button>
+              </div>
+            )}
+          </section>
+
+          {isWorking && <Spinner size="sm" />}
+          {message && <p className="text-sm text-green-700">{message}</p>}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PantryBackupModal;
@@ -0,0 +1,12 @@
+import { createContext, useContext } from 'react';
+import { PantryRepository } from '../services/pantryRepository';
+
+export const PantryRepositoryContext = createContext<PantryRepository | null>(null);
+
+export const usePantryRepository = (): PantryRepository => {
+  const repository = useContext(PantryRepositoryContext);
+  if (!repository) {
+    throw new Error("usePantryRepository must be used inside a PantryRepositoryContext provider");
+  }
+  return repository;
+};
@@ -0,0 +1,90 @@
+import React from 'react';
+import { Product } from '../types';
+import { parseIsoDate } from '../services/expiryParser';
+import { getExpiryStatus, EXPIRY_STATUS_LABELS } from '../services/expiryStatus';
+import { EXPIRY_STATUS_STYLES } from './expiryStatusStyles';
+import PendingExtractionNotice from './PendingExtractionNotice';
+import { getStock, formatQuantity, formatLocation, isCountUnit } from '../services/pantryInventory';
+
+interface PantryTableProps {
+  products: Product[];
+  today: Date;
+  expiringSoonDays: number;
+  onEdit: (product: Product) => void;
+  onUse: (product: Product, amount: number | 'all') => void;
+  onUseSome: (product: Product) => void; // For weights and volumes, where "one" means nothing; asks how much was used
+  onDelete: (productId: string) => void;
+  onScanExpiry: (product: Product) => void;
+}
+
+const formatExpiry = (expiryDate: string): string => {
+  const date = parseIsoDate(expiryDate);
+  if (date) return date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+  return expiryDate || '—';
+};
+
+// A compact alternative to the pantry cards, one row per item and no photos
+const PantryTable: React.FC<PantryTableProps> = ({ products, today, expiringSoonDays, onEdit, onUse, onUseSome, onDelete, onScanExpiry }) => {
+  return (
+    <div className="bg-white shadow-md rounded-xl overflow-x-auto">
+      <table className="w-full text-sm text-left">
+        <thead className="bg-gray-50 text-xs uppercase text-neutral">
+          <tr>
+            <th scope="col" className="px-4 py-2">Item</th>
+            <th scope="col" className="px-4 py-2">Status</th>
+            <th scope="col" className="px-4 py-2">Expires</th>
+            <th scope="col" className="px-4 py-2">Quantity</th>
+            <th scope="col" className="px-4 py-2">Location</th>
+            <th scope="col" className="px-4 py-2"><span className="sr-only">Actions</span></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {products.map(product => {
+            const status = getExpiryStatus(product.expiryDate, today, expiringSoonDays);
+            const stock = getStock(product);
+            return (
+              <tr key={product.id} className="hover:bg-gray-50">
+                <td className="px-4 py-2 font-medium text-neutral-dark max-w-[12rem] truncate" title={product.name}>
+                  {product.name || 'Unnamed Product'}
+                  {product.pendingExtraction && (
+                    <div className="mt-0.5">
+                      <PendingExtractionNotice pendingExtraction={product.pendingExtraction} compact />
+                    </div>
+                  )}
+                </td>
+                <td className="px-4 py-2">
+                  <span className={`inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${EXPIRY_STATUS_STYLES[status].badge}`}>
+                    <span className={`h-2 w-2 rounded-full ${EXPIRY_STATUS_STYLES[status].dot}`}></span>
+                    {EXPIRY_STATUS_LABELS[status]}
+                  </span>
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-neutral">{formatExpiry(product.expiryDate)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-neutral">{formatQuantity(stock)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-neutral">{formatLocation(stock.location)}</td>
+                <td className="px-4 py-2">
+                  <div className="flex justify-end gap-2 whitespace-nowrap">
+                    {product.awaitingExpiryScan && (
+                      <button onClick={() => onScanExpiry(product)} className="text-amber-600 hover:underline font-medium">
+                        Scan date
+                      </button>
+                    )}
+                    {isCountUnit(stock.unit) ? (
+                      <button onClick={() => onUse(product, 1)} className="text-secondary hover:underline font-medium">Use one</button>
+                    ) : (
+                      <button onClick={() => onUseSome(product)} className="text-secondary hover:underline font-medium">Use some</button>
+                    )}
+                    <button onClick={() => onUse(product, 'all')} className="text-green-700 hover:underline font-medium">Use all</button>
+                    <button onClick={() => onEdit(product)} className="text-primary hover:underline font-medium">Edit</button>
+                    <button onClick={() => onDelete(product.id)} className="text-red-500 hover:underline font-medium">Delete</button>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default PantryTable;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { PendingExtraction } from '../types';
+
+interface PendingExtractionNoticeProps {
+  pendingExtraction: PendingExtraction;
+  compact?: boolean; // A short badge with the full explanation as its tooltip, for the list view
+}
+
+const STYLES: Record<PendingExtraction['status'], string> = {
+  pending: 'bg-blue-50 text-blue-700',
+  failed: 'bg-red-50 text-red-700',
+  'needs-review': 'bg-amber-50 text-amber-700',
+};
+
+const SHORT_LABELS: Record<PendingExtraction['status'], string> = {
+  pending: 'Waiting to be read',
+  failed: "Couldn't be read",
+  'needs-review': 'Needs checking',
+};
+
+const describe = ({ status, error }: PendingExtraction): string => {
+  if (status === 'failed') return `Couldn't read the photos: ${error ?? 'unknown error'} Edit the item to fill in its details.`;
+  if (status === 'needs-review') return `Please check what was read: ${error ?? ''} Edit the item to confirm its details.`;
+  return 'Waiting to be read. The photos will be read once the app is back online.';
+};
+
+// Explains why a queued scan has no details yet, or why its details still need checking
+const PendingExtractionNotice: React.FC<PendingExtractionNoticeProps> = ({ pendingExtraction, compact = false }) => {
+  if (compact) {
+    return (
+      <span
+        className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${STYLES[pendingExtraction.status]}`}
+        title={describe(pendingExtraction)}
+      >
+        {SHORT_LABELS[pendingExtraction.status]}
+      </span>
+    );
+  }
+  return <p className={`mb-4 p-2 rounded-lg text-xs ${STYLES[pendingExtraction.status]}`}>{describe(pendingExtraction)}</p>;
+};
+
+export default PendingExtractionNotice;
@@ -0,0 +1,59 @@
+import React, { useRef, useState } from 'react';
+
+interface PhotoDropZoneProps {
+  onFiles: (files: File[]) => void;
+  label: string;
+  hint?: string;
+  disabled?: boolean;
+}
+
+// Accepts photos by drag and drop or from a file picker, for when there is no camera to hand
+const PhotoDropZone: React.FC<PhotoDropZoneProps> = ({ onFiles, label, hint, disabled = false }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+
+  const handleFiles = (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (files.length > 0 && !disabled) onFiles(files);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(e.dataTransfer.files);
+  };
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault(); // Needed for the drop event to fire
+        if (!disabled) setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={`p-4 border-2 border-dashed rounded-xl text-center transition-colors ${isDragging ? 'border-primary bg-blue-50' : 'border-gray-300 bg-white'}`}
+    >
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+        className="text-primary font-medium hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {label}
+      </button>
+      {hint && <p className="text-xs text-gray-500 mt-1">{hint}</p>}
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          handleFiles(e.target.files);
+          e.target.value = ''; // Let the same file be picked again
+        }}
+      />
+    </div>
+  );
+};
+
+export default PhotoDropZone;
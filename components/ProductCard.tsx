@@ -1,15 +1,34 @@
 
 import React from 'react';
-import { Product } from '../types';
+import { Product, ExpiryStatus } from '../types';
+import { parseIsoDate, EXPIRY_LABEL_NAMES } from '../services/expiryParser';
+import { EXPIRY_STATUS_LABELS } from '../services/expiryStatus';
+import { EXPIRY_STATUS_STYLES } from './expiryStatusStyles';
+import StoredImage from './StoredImage';
+import PendingExtractionNotice from './PendingExtractionNotice';
+import { getStock, formatQuantity, formatLocation, formatPrice, isCountUnit } from '../services/pantryInventory';
 
 interface ProductCardProps {
   product: Product;
+  status: ExpiryStatus;
+  daysUntilExpiry: number | null;
+  onEdit: (product: Product) => void;
+  onUse: (product: Product, amount: number | 'all') => void;
+  onUseSome: (product: Product) => void; // For weights and volumes, where "one" means nothing; asks how much was used
   onDelete: (productId: string) => void;
+  onScanExpiry: (product: Product) => void;
 }
 
-const ProductCard: React.FC<ProductCardProps> = ({ product, onDelete }) => {
+const ProductCard: React.FC<ProductCardProps> = ({ product, status, daysUntilExpiry, onEdit, onUse, onUseSome, onDelete, onScanExpiry }) => {
+  const stock = getStock(product);
+
   const formatDate = (isoDateString: string) => {
     if (!isoDateString) return 'N/A';
+    // Parsed expiry dates are calendar days, so avoid the UTC shift of new Date('YYYY-MM-DD')
+    const calendarDate = parseIsoDate(isoDateString);
+    if (calendarDate) {
+      return calendarDate.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+    }
     try {
       // Attempt to parse as date for more robust display, fallback for simple strings
       const date = new Date(isoDateString);
@@ -30,47 +49,103 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onDelete }) => {
   
   const scannedDate = new Date(product.scannedAt).toLocaleString();
 
+  const describeDaysLeft = (days: number | null) => {
+    if (days === null || days === 0) return null;
+    if (days < 0) return `${-days} day${days === -1 ? '' : 's'} ago`;
+    return `in ${days} day${days === 1 ? '' : 's'}`;
+  };
+  const daysLeftText = describeDaysLeft(daysUntilExpiry);
+
   return (
-    <div className="bg-white shadow-lg rounded-xl overflow-hidden transform hover:scale-105 transition-transform duration-200 ease-in-out">
+    <div className={`bg-white shadow-lg rounded-xl overflow-hidden border-t-4 ${EXPIRY_STATUS_STYLES[status].border} transform hover:scale-105 transition-transform duration-200 ease-in-out`}>
       <div className="p-5">
-        <h3 className="text-xl font-poppins font-semibold text-neutral-dark mb-2 truncate" title={product.name}>
-          {product.name || 'Unnamed Product'}
-        </h3>
+        <div className="flex items-start justify-between gap-2 mb-2">
+          <h3 className="text-xl font-poppins font-semibold text-neutral-dark truncate" title={product.name}>
+            {product.name || 'Unnamed Product'}
+          </h3>
+          <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${EXPIRY_STATUS_STYLES[status].badge}`}>
+            {EXPIRY_STATUS_LABELS[status]}
+          </span>
+        </div>
+        <p className="text-sm text-neutral mb-1">
+          <span className="font-medium">{product.expiryLabelType ? EXPIRY_LABEL_NAMES[product.expiryLabelType] : 'Expiry Date'}:</span> {formatDate(product.expiryDate) || 'Not specified'}
+          {daysLeftText && <span className="text-xs text-gray-500"> ({daysLeftText})</span>}
+        </p>
+        {product.expiryRawText && (
+          <p className="text-xs text-gray-400 mb-1 truncate" title={product.expiryRawText}>
+            Label: "{product.expiryRawText}"
+          </p>
+        )}
         <p className="text-sm text-neutral mb-1">
-          <span className="font-medium">Expiry Date:</span> {formatDate(product.expiryDate) || 'Not specified'}
+          <span className="font-medium">{formatQuantity(stock)}</span> · {formatLocation(stock.location)}
+          {stock.price !== undefined && <> · {formatPrice(stock.price)}</>}
         </p>
         <p className="text-xs text-gray-400 mb-4">
           Scanned: {scannedDate}
+          {product.barcode && <span className="font-mono"> · {product.barcode}</span>}
         </p>
         
-        <div className="grid grid-cols-2 gap-3 mb-4">
-          <div>
-            <p className="text-xs font-medium text-neutral-dark mb-1">Product Name Image:</p>
-            {product.nameImageBase64 ? (
-              <img src={product.nameImageBase64} alt="Product Name Scan" className="rounded-md object-cover h-24 w-full border border-gray-200" />
-            ) : (
-              <div className="rounded-md bg-gray-100 h-24 w-full flex items-center justify-center text-xs text-gray-400">No Image</div>
-            )}
-          </div>
-          <div>
-            <p className="text-xs font-medium text-neutral-dark mb-1">Expiry Date Image:</p>
-            {product.expiryImageBase64 ? (
-              <img src={product.expiryImageBase64} alt="Expiry Date Scan" className="rounded-md object-cover h-24 w-full border border-gray-200" />
-            ) : (
-              <div className="rounded-md bg-gray-100 h-24 w-full flex items-center justify-center text-xs text-gray-400">No Image</div>
-            )}
+        {product.awaitingExpiryScan && (
+          <button
+            onClick={() => onScanExpiry(product)}
+            className="w-full mb-4 bg-amber-500 text-white px-3 py-2 rounded-lg hover:bg-amber-600 transition-colors text-sm font-medium"
+          >
+            Scan expiry date
+          </button>
+        )}
+
+        {product.pendingExtraction && <PendingExtractionNotice pendingExtraction={product.pendingExtraction} />}
+
+        {product.thumbnailImageId ? (
+          // The full-size photos are shown when editing
+          <StoredImage imageId={product.thumbnailImageId} alt={product.name || 'Product'} className="rounded-md object-cover h-24 w-full border border-gray-200 mb-4" />
+        ) : (product.nameImageId || product.expiryImageId) && (
+          <div className="grid grid-cols-2 gap-3 mb-4">
+            <div>
+              <p className="text-xs font-medium text-neutral-dark mb-1">Product Name Image:</p>
+              <StoredImage imageId={product.nameImageId} alt="Product Name Scan" className="rounded-md object-cover h-24 w-full border border-gray-200" />
+            </div>
+            <div>
+              <p className="text-xs font-medium text-neutral-dark mb-1">Expiry Date Image:</p>
+              <StoredImage imageId={product.expiryImageId} alt="Expiry Date Scan" className="rounded-md object-cover h-24 w-full border border-gray-200" />
+            </div>
           </div>
-        </div>
+        )}
 
-        <button 
-          onClick={() => onDelete(product.id)}
-          className="w-full bg-red-500 text-white px-4 py-2 rounded-lg hover:bg-red-600 transition-colors text-sm font-medium flex items-center justify-center space-x-1"
-        >
-          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-          </svg>
-          <span>Delete</span>
-        </button>
+        <div className="flex gap-2 mb-2">
+          <button
+            onClick={() => (isCountUnit(stock.unit) ? onUse(product, 1) : onUseSome(product))}
+            className="flex-1 bg-secondary text-white px-3 py-2 rounded-lg hover:bg-green-600 transition-colors text-sm font-medium"
+          >
+            {isCountUnit(stock.unit) ? 'Use one' : 'Use some'}
+          </button>
+          <button
+            onClick={() => onUse(product, 'all')}
+            className="flex-1 bg-green-700 text-white px-3 py-2 rounded-lg hover:bg-green-800 transition-colors text-sm font-medium"
+          >
+            Use all
+          </button>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onEdit(product)}
+            className="flex-1 bg-primary text-white px-4 py-2 rounded-lg hover:bg-primary-dark transition-colors text-sm font-medium flex items-center justify-center space-x-1"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+            </svg>
+            <span>Edit</span>
+          </button>
+          <button 
+            onClick={() => onDelete(product.id)}
+            className="flex-1 bg-red-500 text-white px-4 py-2 rounded-lg hover:bg-red-600 transition-colors text-sm font-medium flex items-center justify-center space-x-1"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+            <span>Delete</span>
+          </button>
+        </div>
       </div>
     </div>
   );
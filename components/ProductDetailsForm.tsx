@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { ExpiryLabelType, ParsedExpiry, StockDetails, StorageLocation } from '../types';
+import { needsConfirmation, parseIsoDate, EXPIRY_LABEL_NAMES } from '../services/expiryParser';
+import { UNITS, formatLocation } from '../services/pantryInventory';
+
+const CUSTOM_LOCATION = '__custom__';
+
+interface ProductDetailsFormProps {
+  name: string;
+  onNameChange: (name: string) => void;
+  expiryDate: string;
+  onExpiryDateChange: (expiryDate: string) => void; // Any date the user picks or types counts as confirmed
+  hasNoExpiryDate: boolean;
+  onNoExpiryDateChange: (hasNoExpiryDate: boolean) => void;
+  labelType: ExpiryLabelType;
+  onLabelTypeChange: (labelType: ExpiryLabelType) => void;
+  parsedExpiry: ParsedExpiry | null; // Latest AI reading of the label, if there is one
+  isExpiryConfirmed: boolean;
+  stock: StockDetails;
+  onStockChange: (stock: StockDetails) => void;
+  locations: StorageLocation[]; // Choices for the location picker; anything else can be typed in
+  nameSuggestions?: string[]; // Offered as the name is typed
+}
+
+// Name and expiry fields shared by the scan confirmation and edit screens
+const ProductDetailsForm: React.FC<ProductDetailsFormProps> = ({
+  name,
+  onNameChange,
+  expiryDate,
+  onExpiryDateChange,
+  hasNoExpiryDate,
+  onNoExpiryDateChange,
+  labelType,
+  onLabelTypeChange,
+  parsedExpiry,
+  isExpiryConfirmed,
+  stock,
+  onStockChange,
+  locations,
+  nameSuggestions,
+}) => {
+  const [isCustomLocation, setIsCustomLocation] = useState<boolean>(!locations.includes(stock.location));
+
+  return (
+    <>
+      <div>
+        <label htmlFor="productName" className="block text-sm font-medium text-neutral-dark mb-1">Product Name</label>
+        <input
+          id="productName"
+          type="text"
+          value={name}
+          onChange={(e) => onNameChange(e.target.value)}
+          className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary transition-shadow"
+          placeholder="Enter product name"
+          list={nameSuggestions ? 'productNameSuggestions' : undefined}
+          autoComplete="off"
+        />
+        {nameSuggestions && (
+          <datalist id="productNameSuggestions">
+            {nameSuggestions.map(suggestion => <option key={suggestion} value={suggestion} />)}
+          </datalist>
+        )}
+      </div>
+      {parsedExpiry && (
+        <p className="text-xs text-gray-500">
+          Read from label: <span className="font-mono">"{parsedExpiry.rawText || 'nothing'}"</span>
+          {parsedExpiry.isoDate && ` (${Math.round(parsedExpiry.confidence * 100)}% confidence)`}
+        </p>
+      )}
+      {parsedExpiry && needsConfirmation(parsedExpiry) && !isExpiryConfirmed && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-2">
+          <p className="text-sm font-medium text-amber-800">
+            {parsedExpiry.alternatives.length > 0 ? "Which date is printed on the label?" : "We're not sure about this date. Is it right?"}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {[parsedExpiry.isoDate, ...parsedExpiry.alternatives].filter((d): d is string => !!d).map(isoDate => (
+              <button
+                key={isoDate}
+                onClick={() => onExpiryDateChange(isoDate)}
+                className="px-3 py-1.5 bg-white border border-amber-300 rounded-md text-sm text-amber-900 hover:bg-amber-100"
+              >
+                {parseIsoDate(isoDate)?.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' }) ?? isoDate}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-amber-700">Or enter the correct date below.</p>
+        </div>
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="expiryDate" className="block text-sm font-medium text-neutral-dark mb-1">Expiry Date</label>
+          <input
+            id="expiryDate"
+            type="date"
+            value={expiryDate}
+            disabled={hasNoExpiryDate}
+            onChange={(e) => onExpiryDateChange(e.target.value)}
+            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary transition-shadow disabled:bg-gray-100"
+          />
+          <label className="mt-1 flex items-center gap-2 text-xs text-neutral">
+            <input
+              type="checkbox"
+              checked={hasNoExpiryDate}
+              onChange={(e) => onNoExpiryDateChange(e.target.checked)}
+            />
+            No expiry date (e.g. salt, tinned goods without one)
+          </label>
+        </div>
+        <div>
+          <label htmlFor="expiryLabelType" className="block text-sm font-medium text-neutral-dark mb-1">Date Type</label>
+          <select
+            id="expiryLabelType"
+            value={labelType}
+            onChange={(e) => onLabelTypeChange(e.target.value as ExpiryLabelType)}
+            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary transition-shadow"
+          >
+            {(Object.keys(EXPIRY_LABEL_NAMES) as ExpiryLabelType[]).map(type => (
+              <option key={type} value={type}>{EXPIRY_LABEL_NAMES[type]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="quantity" className="block text-sm font-medium text-neutral-dark mb-1">Quantity</label>
+          <input
+            id="quantity"
+            type="number"
+            min={0}
+            step="any"
+            value={stock.quantity}
+            onChange={(e) => onStockChange({ ...stock, quantity: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary transition-shadow"
+          />
+        </div>
+        <div>
+          <label htmlFor="unit" className="block text-sm font-medium text-neutral-dark mb-1">Unit</label>
+          <select
+            id="unit"
+            value={stock.unit}
+            onChange={(e) => onStockChange({ ...stock, unit: e.target.value })}
+            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary transition-shadow"
+          >
+            {(UNITS.includes(stock.unit) ? UNITS : [...UNITS, stock.unit]).map(unit => (
+              <option key={unit} value={unit}>{unit}</option>
+            ))}
+          </select>
+        </div>
+        <div className="col-span-2 sm:col-span-1">
+          <label htmlFor="location" className="block text-sm font-medium text-neutral-dark mb-1">Location</label>
+          <select
+            id="location"
+            value={isCustomLocation ? CUSTOM_LOCATION : stock.location}
+            onChange={(e) => {
+              const custom = e.target.value === CUSTOM_LOCATION;
+              setIsCustomLocation(custom);
+              onStockChange({ ...stock, location: custom ? '' : e.target.value });
+            }}
+            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary transition-shadow"
+          >
+            {locations.map(location => (
+              <option key={location} value={location}>{formatLocation(location)}</option>
+            ))}
+            <option value={CUSTOM_LOCATION}>Other...</option>
+          </select>
+        </div>
+      </div>
+      {isCustomLocation && (
+        <input
+          type="text"
+          value={stock.location}
+          onChange={(e) => onStockChange({ ...stock, location: e.target.value.toLowerCase() })}
+          className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary transition-shadow"
+          placeholder="Where is it kept? (e.g. garage shelf)"
+          aria-label="Custom location"
+        />
+      )}
+      <div>
+        <label htmlFor="price" className="block text-sm font-medium text-neutral-dark mb-1">Price paid <span className="font-normal text-gray-500">(optional)</span></label>
+        <input
+          id="price"
+          type="number"
+          min={0}
+          step="0.01"
+          value={stock.price ?? ''}
+          onChange={(e) => onStockChange({ ...stock, price: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0) })}
+          className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary transition-shadow"
+          placeholder="For working out what wasted food costs"
+        />
+      </div>
+    </>
+  );
+};
+
+export default ProductDetailsForm;
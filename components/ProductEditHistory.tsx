@@ -0,0 +1,48 @@
+import React from 'react';
+import { Product, ProductEdit } from '../types';
+import { EXPIRY_LABEL_NAMES } from '../services/expiryParser';
+import { PRODUCT_FIELD_NAMES } from '../services/productHistory';
+
+interface ProductEditHistoryProps {
+  product: Product;
+}
+
+const formatValue = (edit: ProductEdit, value: string) => {
+  if (!value) return 'empty';
+  if (edit.field === 'expiryLabelType') {
+    return EXPIRY_LABEL_NAMES[value as keyof typeof EXPIRY_LABEL_NAMES] ?? value;
+  }
+  return value;
+};
+
+const ProductEditHistory: React.FC<ProductEditHistoryProps> = ({ product }) => {
+  const edits = product.editHistory ?? [];
+  if (!product.aiExtraction && edits.length === 0) return null;
+
+  return (
+    <details className="text-sm bg-neutral-light/60 border border-gray-200 rounded-lg p-3">
+      <summary className="cursor-pointer font-medium text-neutral-dark">Edit history</summary>
+      <div className="mt-2 space-y-2">
+        {product.aiExtraction && (
+          <p className="text-xs text-gray-600">
+            <span className="font-medium">Original scan:</span> "{product.aiExtraction.name}", label read as{' '}
+            <span className="font-mono">"{product.aiExtraction.expiryRawText || 'nothing'}"</span>
+          </p>
+        )}
+        {edits.length > 0 && (
+          <ul className="space-y-1">
+            {edits.map((edit, i) => (
+              <li key={i} className="text-xs text-gray-600">
+                <span className="text-gray-400">{new Date(edit.editedAt).toLocaleString()}</span>{' '}
+                {PRODUCT_FIELD_NAMES[edit.field]}: "{formatValue(edit, edit.from)}" → "{formatValue(edit, edit.to)}"
+                {edit.source === 'rescan' ? ' (re-scan)' : ' (corrected)'}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default ProductEditHistory;
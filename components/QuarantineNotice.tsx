@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from 'react';
+import { QuarantinedRecord } from '../types';
+import { usePantryRepository } from './PantryRepositoryContext';
+import { downloadTextFile } from '../services/fileExport';
+
+// Tells the user about stored items that couldn't be read, and lets them keep a copy before discarding them
+const QuarantineNotice: React.FC = () => {
+  const repository = usePantryRepository();
+  const [records, setRecords] = useState<QuarantinedRecord[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    repository.listQuarantined()
+      .then(quarantined => { if (!cancelled) setRecords(quarantined); })
+      .catch(e => console.error("Failed to load quarantined records", e));
+    return () => { cancelled = true; };
+  }, [repository]);
+
+  if (records.length === 0) return null;
+
+  const handleDownload = () => {
+    downloadTextFile('pantry-unreadable-items.json', JSON.stringify(records, null, 2), 'application/json');
+  };
+
+  const handleDiscard = async () => {
+    try {
+      for (const record of records) {
+        await repository.discardQuarantined(record.id);
+      }
+      setRecords([]);
+    } catch (e) {
+      console.error("Failed to discard quarantined records", e);
+    }
+  };
+
+  return (
+    <div className="my-4 p-4 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg shadow text-center">
+      <p className="font-medium">
+        {records.length} saved item{records.length === 1 ? '' : 's'} couldn't be read and {records.length === 1 ? 'has' : 'have'} been set aside.
+      </p>
+      <p className="text-sm">The rest of your pantry is unaffected. Download a copy if you want to recover them by hand.</p>
+      <div className="mt-2 flex justify-center gap-4 text-sm">
+        <button onClick={handleDownload} className="underline hover:text-amber-900">Download</button>
+        <button onClick={handleDiscard} className="underline hover:text-amber-900">Discard</button>
+      </div>
+    </div>
+  );
+};
+
+export default QuarantineNotice;
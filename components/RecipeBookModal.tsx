@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Recipe, SavedRecipe } from '../types';
+import { searchRecipeBook } from '../services/recipeBook';
+import RecipeCard from './RecipeCard';
+
+interface RecipeBookModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  savedRecipes: SavedRecipe[];
+  onToggleFavourite: (savedRecipe: SavedRecipe) => void;
+  onCookRecipe: (recipe: Recipe) => void;
+  onDeleteRecipe: (savedRecipe: SavedRecipe) => void;
+  onAddMissingToList: (recipe: Recipe) => void;
+}
+
+const formatCookedDate = (isoDate: string): string =>
+  new Date(isoDate).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+const RecipeBookModal: React.FC<RecipeBookModalProps> = ({ isOpen, onClose, savedRecipes, onToggleFavourite, onCookRecipe, onDeleteRecipe, onAddMissingToList }) => {
+  const [query, setQuery] = useState<string>('');
+  const [favouritesOnly, setFavouritesOnly] = useState<boolean>(false);
+
+  if (!isOpen) return null;
+
+  const matches = searchRecipeBook(savedRecipes, query, favouritesOnly);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center z-50 p-4 transition-opacity"
+      aria-labelledby="recipe-book-modal-title"
+      role="dialog"
+      aria-modal="true"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()} // Prevent closing modal when clicking inside
+      >
+        <header className="p-5 border-b border-gray-200 flex justify-between items-center">
+          <h2 id="recipe-book-modal-title" className="text-2xl font-poppins font-semibold text-neutral-dark">
+            Recipe Book
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="Close recipe book"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </header>
+
+        <div className="px-6 pt-4 flex flex-col sm:flex-row gap-3">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by name or ingredient"
+            className="flex-grow p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary"
+            aria-label="Search saved recipes"
+          />
+          <label className="flex items-center gap-2 text-sm text-neutral-dark">
+            <input type="checkbox" checked={favouritesOnly} onChange={(e) => setFavouritesOnly(e.target.checked)} />
+            Favourites only
+          </label>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-grow space-y-3">
+          {savedRecipes.length === 0 && (
+            <div className="text-center py-10">
+              <p className="text-xl font-poppins text-neutral">No saved recipes yet.</p>
+              <p className="text-sm text-gray-500 mt-1">Save a suggestion and it will be kept here.</p>
+            </div>
+          )}
+          {savedRecipes.length > 0 && matches.length === 0 && (
+            <p className="text-center text-sm text-gray-500 py-6">No saved recipes match.</p>
+          )}
+          {matches.map(saved => {
+            const lastCooked = saved.cookedAt[saved.cookedAt.length - 1];
+            return (
+              <details key={saved.id} className="border border-gray-200 rounded-lg">
+                <summary className="p-3 cursor-pointer flex items-center gap-2">
+                  <span className={saved.isFavourite ? 'text-amber-500' : 'text-gray-300'} aria-hidden="true">★</span>
+                  <span className="font-semibold text-neutral-dark flex-grow">{saved.recipe.recipeName}</span>
+                  <span className="text-xs text-gray-500">
+                    {saved.cookedAt.length > 0
+                      ? `Cooked ${saved.cookedAt.length}× · last ${formatCookedDate(lastCooked)}`
+                      : 'Not cooked yet'}
+                  </span>
+                </summary>
+                <div className="p-3 pt-0">
+                  <RecipeCard
+                    recipe={saved.recipe}
+                    actions={
+                      <>
+                        <button
+                          onClick={() => onToggleFavourite(saved)}
+                          className="px-3 py-1.5 rounded-md text-sm font-medium border border-amber-400 text-amber-700 hover:bg-amber-50 transition-colors"
+                        >
+                          {saved.isFavourite ? 'Remove Favourite' : 'Favourite'}
+                        </button>
+                        <button
+                          onClick={() => onCookRecipe(saved.recipe)}
+                          className="px-3 py-1.5 rounded-md text-sm font-medium bg-secondary text-white hover:bg-green-600 transition-colors"
+                        >
+                          Cooked This
+                        </button>
+                        {saved.recipe.missingIngredients.length > 0 && (
+                          <button
+                            onClick={() => onAddMissingToList(saved.recipe)}
+                            className="px-3 py-1.5 rounded-md text-sm font-medium text-primary hover:bg-blue-50 transition-colors"
+                          >
+                            Add Missing to Shopping List
+                          </button>
+                        )}
+                        <button
+                          onClick={() => onDeleteRecipe(saved)}
+                          className="px-3 py-1.5 rounded-md text-sm font-medium text-red-600 hover:bg-red-50 transition-colors"
+                        >
+                          Remove
+                        </button>
+                      </>
+                    }
+                  />
+                </div>
+              </details>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecipeBookModal;
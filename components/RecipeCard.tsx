@@ -0,0 +1,59 @@
+import React from 'react';
+import { Recipe } from '../types';
+
+interface RecipeCardProps {
+  recipe: Recipe;
+  useItUpItems?: string[]; // Near-expiry pantry items to highlight
+  actions?: React.ReactNode; // Buttons shown under the heading
+}
+
+const mentionsAny = (text: string, names: string[]): boolean => {
+  const lower = text.toLowerCase();
+  return names.some(name => lower.includes(name.toLowerCase()));
+};
+
+const RecipeCard: React.FC<RecipeCardProps> = ({ recipe, useItUpItems = [], actions }) => {
+  return (
+    <div className="bg-neutral-light/50 p-6 rounded-xl border border-gray-200/80">
+      <h3 className="text-xl font-poppins font-bold text-primary-dark mb-1">{recipe.recipeName}</h3>
+      <p className="text-sm text-neutral mb-3">
+        {[
+          recipe.prepTimeMinutes ? `${recipe.prepTimeMinutes} min` : null,
+          recipe.servings ? `Serves ${recipe.servings}` : null,
+          !recipe.allergens ? 'Allergens not listed'
+            : recipe.allergens.length > 0 ? `Contains: ${recipe.allergens.join(', ')}` : 'No allergens tagged',
+        ].filter(Boolean).join(' · ')}
+      </p>
+      {actions && <div className="flex flex-wrap gap-2 mb-4">{actions}</div>}
+      {useItUpItems.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <span className="text-sm font-semibold text-amber-700">Uses up:</span>
+          {useItUpItems.map(item => (
+            <span key={item} className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs font-medium">{item}</span>
+          ))}
+        </div>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
+         <div className="md:col-span-2">
+            <h4 className="font-semibold text-neutral-dark mb-2">Ingredients</h4>
+            <ul className="list-disc list-inside space-y-1 text-neutral-dark/90 text-sm">
+            {recipe.ingredients.map((ing, i) => (
+              <li key={i} className={mentionsAny(ing, useItUpItems) ? 'font-semibold text-amber-700' : undefined}>{ing}</li>
+            ))}
+            </ul>
+            {recipe.missingIngredients.length > 0 && (
+              <p className="mt-3 text-xs text-gray-500">
+                <span className="font-semibold">Not in your pantry:</span> {recipe.missingIngredients.join(', ')}
+              </p>
+            )}
+         </div>
+         <div className="md:col-span-3">
+            <h4 className="font-semibold text-neutral-dark mb-2">Instructions</h4>
+            <p className="text-neutral-dark/90 whitespace-pre-wrap text-sm leading-relaxed">{recipe.instructions}</p>
+         </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecipeCard;
@@ -1,17 +1,28 @@
 
 import React from 'react';
-import { Recipe } from '../types';
+import { Recipe, SavedRecipe } from '../types';
+import { RankedRecipe } from '../services/recipeRanking';
+import { findSavedRecipe } from '../services/recipeBook';
 import Spinner from './Spinner';
+import RecipeCard from './RecipeCard';
 
 interface RecipeModalProps {
   isOpen: boolean;
   onClose: () => void;
-  recipes: Recipe[];
+  recipes: RankedRecipe[]; // Already in display order
   isLoading: boolean;
   error: string | null;
+  warnings?: string[]; // What had to be repaired or dropped from the AI's answer
+  preferencesSummary: string;
+  onEditPreferences: () => void;
+  onRetry?: () => void; // Shown with the error when asking again might work
+  savedRecipes: SavedRecipe[];
+  onSaveRecipe: (recipe: Recipe) => void;
+  onCookRecipe: (recipe: Recipe) => void;
+  onAddMissingToList: (recipe: Recipe) => void;
 }
 
-const RecipeModal: React.FC<RecipeModalProps> = ({ isOpen, onClose, recipes, isLoading, error }) => {
+const RecipeModal: React.FC<RecipeModalProps> = ({ isOpen, onClose, recipes, isLoading, error, warnings = [], preferencesSummary, onEditPreferences, onRetry, savedRecipes, onSaveRecipe, onCookRecipe, onAddMissingToList }) => {
   if (!isOpen) return null;
 
   return (
@@ -27,9 +38,15 @@ const RecipeModal: React.FC<RecipeModalProps> = ({ isOpen, onClose, recipes, isL
         onClick={e => e.stopPropagation()} // Prevent closing modal when clicking inside
       >
         <header className="p-5 border-b border-gray-200 flex justify-between items-center">
-          <h2 id="recipe-modal-title" className="text-2xl font-poppins font-semibold text-neutral-dark">
-            Recipe Suggestions
-          </h2>
+          <div>
+            <h2 id="recipe-modal-title" className="text-2xl font-poppins font-semibold text-neutral-dark">
+              Recipe Suggestions
+            </h2>
+            <p className="text-xs text-neutral mt-1">
+              {preferencesSummary}{' '}
+              <button onClick={onEditPreferences} className="underline hover:text-neutral-dark">Change</button>
+            </p>
+          </div>
           <button 
             onClick={onClose} 
             className="text-gray-400 hover:text-gray-600 transition-colors"
@@ -52,6 +69,11 @@ const RecipeModal: React.FC<RecipeModalProps> = ({ isOpen, onClose, recipes, isL
             <div className="text-center p-6 bg-red-50 border border-red-200 rounded-lg">
               <p className="font-semibold text-red-700">Oops! Something went wrong.</p>
               <p className="text-red-600 mt-1">{error}</p>
+              {onRetry && (
+                <button onClick={onRetry} className="mt-4 px-4 py-2 bg-red-600 text-white rounded-md text-sm font-medium hover:bg-red-700 transition-colors">
+                  Try Again
+                </button>
+              )}
             </div>
           )}
           {!isLoading && !error && recipes.length === 0 && (
@@ -60,25 +82,54 @@ const RecipeModal: React.FC<RecipeModalProps> = ({ isOpen, onClose, recipes, isL
               <p className="text-sm text-gray-500 mt-1">Try adding more pantry items for better suggestions.</p>
             </div>
           )}
+          {!isLoading && warnings.length > 0 && (
+            <details className="mb-6 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+              <summary className="cursor-pointer">Some suggestions came back incomplete and were fixed up or left out.</summary>
+              <ul className="mt-2 list-disc list-inside text-xs space-y-0.5">
+                {warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+              </ul>
+            </details>
+          )}
           {!isLoading && !error && recipes.length > 0 && (
             <div className="space-y-8">
-              {recipes.map((recipe, index) => (
-                <div key={index} className="bg-neutral-light/50 p-6 rounded-xl border border-gray-200/80">
-                  <h3 className="text-xl font-poppins font-bold text-primary-dark mb-3">{recipe.recipeName}</h3>
-                  <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
-                     <div className="md:col-span-2">
-                        <h4 className="font-semibold text-neutral-dark mb-2">Ingredients</h4>
-                        <ul className="list-disc list-inside space-y-1 text-neutral-dark/90 text-sm">
-                        {recipe.ingredients.map((ing, i) => <li key={i}>{ing}</li>)}
-                        </ul>
-                     </div>
-                     <div className="md:col-span-3">
-                        <h4 className="font-semibold text-neutral-dark mb-2">Instructions</h4>
-                        <p className="text-neutral-dark/90 whitespace-pre-wrap text-sm leading-relaxed">{recipe.instructions}</p>
-                     </div>
-                  </div>
-                </div>
-              ))}
+              {recipes.some(({ score }) => score > 0) && (
+                <p className="text-sm text-neutral -mb-4">Sorted by how much soon-to-expire food each recipe uses up.</p>
+              )}
+              {recipes.map(({ recipe, useItUpItems }, index) => {
+                const isSaved = !!findSavedRecipe(savedRecipes, recipe);
+                return (
+                  <RecipeCard
+                    key={index}
+                    recipe={recipe}
+                    useItUpItems={useItUpItems}
+                    actions={
+                      <>
+                        <button
+                          onClick={() => onSaveRecipe(recipe)}
+                          disabled={isSaved}
+                          className="px-3 py-1.5 rounded-md text-sm font-medium border border-primary text-primary hover:bg-blue-50 disabled:border-gray-300 disabled:text-gray-500 disabled:hover:bg-transparent transition-colors"
+                        >
+                          {isSaved ? 'Saved to Recipe Book' : 'Save to Recipe Book'}
+                        </button>
+                        <button
+                          onClick={() => onCookRecipe(recipe)}
+                          className="px-3 py-1.5 rounded-md text-sm font-medium bg-secondary text-white hover:bg-green-600 transition-colors"
+                        >
+                          Cooked This
+                        </button>
+                        {recipe.missingIngredients.length > 0 && (
+                          <button
+                            onClick={() => onAddMissingToList(recipe)}
+                            className="px-3 py-1.5 rounded-md text-sm font-medium text-primary hover:bg-blue-50 transition-colors"
+                          >
+                            Add Missing to Shopping List
+                          </button>
+                        )}
+                      </>
+                    }
+                  />
+                );
+              })}
             </div>
           )}
         </div>
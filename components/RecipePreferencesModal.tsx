@@ -0,0 +1,138 @@
+import React from 'react';
+import { Diet, RecipePreferences } from '../types';
+import { ALLERGENS, CUISINES, DIETS, PREP_TIME_OPTIONS } from '../services/recipePreferences';
+
+interface RecipePreferencesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  preferences: RecipePreferences;
+  onChange: (preferences: RecipePreferences) => void;
+}
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+const chipClass = (isSelected: boolean, selectedClass: string) =>
+  `px-3 py-1 rounded-full border text-sm transition-colors ${isSelected ? selectedClass : 'bg-white text-neutral-dark border-gray-300 hover:border-primary'}`;
+
+const RecipePreferencesModal: React.FC<RecipePreferencesModalProps> = ({ isOpen, onClose, preferences, onChange }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center z-50 p-4 transition-opacity"
+      aria-labelledby="recipe-preferences-modal-title"
+      role="dialog"
+      aria-modal="true"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()} // Prevent closing modal when clicking inside
+      >
+        <header className="p-5 border-b border-gray-200 flex justify-between items-center">
+          <h2 id="recipe-preferences-modal-title" className="text-2xl font-poppins font-semibold text-neutral-dark">
+            Recipe Preferences
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="Close recipe preferences"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </header>
+
+        <div className="p-6 overflow-y-auto flex-grow space-y-6">
+          <fieldset>
+            <legend className="block text-sm font-medium text-neutral-dark mb-2">Diet</legend>
+            <div className="flex flex-wrap gap-2">
+              {DIETS.map(diet => (
+                <button
+                  key={diet.value}
+                  type="button"
+                  onClick={() => onChange({ ...preferences, diets: toggle<Diet>(preferences.diets, diet.value) })}
+                  className={chipClass(preferences.diets.includes(diet.value), 'bg-secondary text-white border-secondary')}
+                  aria-pressed={preferences.diets.includes(diet.value)}
+                >
+                  {diet.label}
+                </button>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-neutral-dark mb-2">Never include</legend>
+            <div className="flex flex-wrap gap-2">
+              {ALLERGENS.map(allergen => (
+                <button
+                  key={allergen}
+                  type="button"
+                  onClick={() => onChange({ ...preferences, excludedAllergens: toggle(preferences.excludedAllergens, allergen) })}
+                  className={chipClass(preferences.excludedAllergens.includes(allergen), 'bg-red-600 text-white border-red-600')}
+                  aria-pressed={preferences.excludedAllergens.includes(allergen)}
+                >
+                  {allergen}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Suggestions tagged with these are also filtered out, but always check the ingredients yourself.</p>
+          </fieldset>
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-neutral-dark mb-2">Favourite cuisines</legend>
+            <div className="flex flex-wrap gap-2">
+              {CUISINES.map(cuisine => (
+                <button
+                  key={cuisine}
+                  type="button"
+                  onClick={() => onChange({ ...preferences, cuisines: toggle(preferences.cuisines, cuisine) })}
+                  className={chipClass(preferences.cuisines.includes(cuisine), 'bg-primary text-white border-primary')}
+                  aria-pressed={preferences.cuisines.includes(cuisine)}
+                >
+                  {cuisine}
+                </button>
+              ))}
+            </div>
+          </fieldset>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="maxPrepMinutes" className="block text-sm font-medium text-neutral-dark mb-1">Max prep time</label>
+              <select
+                id="maxPrepMinutes"
+                value={preferences.maxPrepMinutes ?? ''}
+                onChange={(e) => onChange({ ...preferences, maxPrepMinutes: e.target.value ? parseInt(e.target.value, 10) : null })}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary"
+              >
+                <option value="">No limit</option>
+                {PREP_TIME_OPTIONS.map(minutes => (
+                  <option key={minutes} value={minutes}>{minutes} minutes</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="servings" className="block text-sm font-medium text-neutral-dark mb-1">Servings</label>
+              <input
+                id="servings"
+                type="number"
+                min={1}
+                max={12}
+                value={preferences.servings}
+                onChange={(e) => {
+                  const servings = parseInt(e.target.value, 10);
+                  if (!isNaN(servings) && servings > 0) onChange({ ...preferences, servings });
+                }}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary"
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecipePreferencesModal;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { Product, RemovalOutcome } from '../types';
+import { REMOVAL_OUTCOME_LABELS } from '../services/pantryLog';
+import { formatPrice, formatQuantity, getStock } from '../services/pantryInventory';
+
+interface RemoveProductDialogProps {
+  product: Product;
+  isExpired: boolean;
+  onConfirm: (outcome: RemovalOutcome) => void;
+  onCancel: () => void;
+}
+
+const OUTCOME_STYLES: Record<RemovalOutcome, string> = {
+  consumed: 'bg-secondary hover:bg-green-600',
+  discarded: 'bg-red-500 hover:bg-red-600',
+  'given-away': 'bg-primary hover:bg-primary-dark',
+};
+
+// Asks how an item left the pantry, so the waste analytics can tell eaten food from thrown away food
+const RemoveProductDialog: React.FC<RemoveProductDialogProps> = ({ product, isExpired, onConfirm, onCancel }) => {
+  const stock = getStock(product);
+  // An expired item is most likely being thrown away, so that choice goes first
+  const outcomes: RemovalOutcome[] = isExpired ? ['discarded', 'consumed', 'given-away'] : ['consumed', 'discarded', 'given-away'];
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center z-50 p-4 transition-opacity"
+      aria-labelledby="remove-product-dialog-title"
+      role="dialog"
+      aria-modal="true"
+      onClick={onCancel}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-sm"
+        onClick={e => e.stopPropagation()} // Prevent closing modal when clicking inside
+      >
+        <header className="p-5 border-b border-gray-200">
+          <h2 id="remove-product-dialog-title" className="text-xl font-poppins font-semibold text-neutral-dark">
+            Remove {product.name || 'this item'}
+          </h2>
+          <p className="text-sm text-neutral mt-1">
+            What happened to the {formatQuantity(stock)}
+            {stock.price !== undefined && ` (worth ${formatPrice(stock.price)})`}?
+          </p>
+        </header>
+
+        <div className="p-5 space-y-2">
+          {outcomes.map(outcome => (
+            <button
+              key={outcome}
+              onClick={() => onConfirm(outcome)}
+              className={`w-full text-white px-4 py-2 rounded-lg font-semibold transition-colors ${OUTCOME_STYLES[outcome]}`}
+            >
+              {REMOVAL_OUTCOME_LABELS[outcome]}
+            </button>
+          ))}
+          <button
+            onClick={onCancel}
+            className="w-full px-4 py-2 rounded-lg text-neutral hover:text-neutral-dark"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RemoveProductDialog;
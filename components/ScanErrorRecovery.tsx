@@ -0,0 +1,76 @@
+import React from 'react';
+import { AiError, AiErrorKind, AiQuotaError } from '../services/aiErrors';
+
+interface ScanErrorRecoveryProps {
+  error: AiError;
+  onRetry: () => void; // Sends the same photo again
+  onRetake: () => void; // Back to the camera for a new photo
+  onEnterManually: () => void; // Keeps the photo and skips the AI for this field
+  onSaveForLater?: () => void; // Saves the photos now and reads them once the AI can be reached
+}
+
+type RecoveryAction = 'retry' | 'retake' | 'manual' | 'later';
+
+// Retrying only helps when the failure was on the way to or from the AI; a refusal or a bad key will just happen again
+const RECOVERY_ACTIONS: Record<AiErrorKind, RecoveryAction[]> = {
+  'auth': ['manual'],
+  'quota': ['retry', 'later', 'manual'],
+  'network': ['retry', 'later', 'manual'],
+  'timeout': ['retry', 'later', 'retake', 'manual'],
+  'safety-blocked': ['retake', 'manual'],
+  'malformed-response': ['retry', 'retake', 'manual'],
+  'bad-request': ['retake', 'manual'],
+  'cancelled': ['retry', 'retake', 'manual'],
+  'unknown': ['retry', 'retake', 'manual'],
+};
+
+const HINTS: Record<AiErrorKind, string> = {
+  'auth': "Scanning is unavailable until the API key is fixed. You can still add this item by typing its details.",
+  'quota': "Too many requests right now. Wait a moment before trying again.",
+  'network': "Check your internet connection, then try again.",
+  'timeout': "Large or blurry photos can take longer. Try again, or retake a closer photo.",
+  'safety-blocked': "Try a photo that shows only the product label.",
+  'malformed-response': "Trying again usually works. A clearer photo can also help.",
+  'bad-request': "The photo could not be sent as it is. Retake it, or type the details instead.",
+  'cancelled': "",
+  'unknown': "Try again. If it keeps failing, you can still add this item by typing its details.",
+};
+
+const ScanErrorRecovery: React.FC<ScanErrorRecoveryProps> = ({ error, onRetry, onRetake, onEnterManually, onSaveForLater }) => {
+  const actions = RECOVERY_ACTIONS[error.kind];
+  const waitSeconds = error instanceof AiQuotaError && error.retryAfterMs ? Math.ceil(error.retryAfterMs / 1000) : null;
+
+  return (
+    <div className="mb-6 p-4 bg-red-100 border border-red-300 text-red-700 rounded-lg shadow-md max-w-xl mx-auto">
+      <p className="font-medium">{error.message}</p>
+      <p className="text-sm mt-1">
+        {HINTS[error.kind]}
+        {waitSeconds && ` Suggested wait: ${waitSeconds} seconds.`}
+      </p>
+      <div className="flex flex-wrap gap-2 mt-3">
+        {actions.includes('retry') && (
+          <button onClick={onRetry} className="px-3 py-1.5 bg-red-600 text-white rounded-md text-sm font-medium hover:bg-red-700 transition-colors">
+            Try Again
+          </button>
+        )}
+        {actions.includes('later') && onSaveForLater && (
+          <button onClick={onSaveForLater} className="px-3 py-1.5 bg-white border border-red-300 rounded-md text-sm font-medium hover:bg-red-50 transition-colors">
+            Save &amp; Read Later
+          </button>
+        )}
+        {actions.includes('retake') && (
+          <button onClick={onRetake} className="px-3 py-1.5 bg-white border border-red-300 rounded-md text-sm font-medium hover:bg-red-50 transition-colors">
+            Retake Photo
+          </button>
+        )}
+        {actions.includes('manual') && (
+          <button onClick={onEnterManually} className="px-3 py-1.5 bg-white border border-red-300 rounded-md text-sm font-medium hover:bg-red-50 transition-colors">
+            Enter Manually
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScanErrorRecovery;
@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { AppSettings, DateOrder } from '../types';
+import { notificationsSupported, requestNotificationPermission } from '../services/reminderScheduler';
+
+interface SettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  onExportCalendar: () => void;
+}
+
+const DATE_ORDER_OPTIONS: { value: DateOrder; label: string }[] = [
+  { value: 'DMY', label: 'Day / Month / Year (31/12/25)' },
+  { value: 'MDY', label: 'Month / Day / Year (12/31/25)' },
+  { value: 'YMD', label: 'Year / Month / Day (25/12/31)' },
+];
+
+const OCR_IMAGE_SIZE_OPTIONS: { value: number; label: string }[] = [
+  { value: 1024, label: 'Small (1024 px): fastest uploads' },
+  { value: 1600, label: 'Medium (1600 px)' },
+  { value: 2400, label: 'Large (2400 px): best for tiny print' },
+];
+
+const IMAGE_QUALITY_OPTIONS: { value: number; label: string }[] = [
+  { value: 0.6, label: 'Low' },
+  { value: 0.75, label: 'Medium' },
+  { value: 0.85, label: 'High' },
+  { value: 0.95, label: 'Maximum' },
+];
+
+const THUMBNAIL_SIZE_OPTIONS = [160, 320, 480];
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings, onChange, onExportCalendar }) => {
+  const [permissionNotice, setPermissionNotice] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  // Turning a reminder on asks for notification permission first, from the click itself
+  const handleReminderToggle = async (field: 'expiryReminders' | 'dailyDigest', enabled: boolean) => {
+    setPermissionNotice(null);
+    if (enabled && await requestNotificationPermission() !== 'granted') {
+      setPermissionNotice("Notifications are blocked for this site. Allow them in your browser settings, or use the calendar export instead.");
+      return;
+    }
+    onChange({ ...settings, [field]: enabled });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center z-50 p-4 transition-opacity"
+      aria-labelledby="settings-modal-title"
+      role="dialog"
+      aria-modal="true"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()} // Prevent closing modal when clicking inside
+      >
+        <header className="p-5 border-b border-gray-200 flex justify-between items-center">
+          <h2 id="settings-modal-title" className="text-2xl font-poppins font-semibold text-neutral-dark">
+            Settings
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="Close settings"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </header>
+
+        <div className="p-6 overflow-y-auto flex-grow space-y-5">
+          <div>
+            <label htmlFor="dateOrder" className="block text-sm font-medium text-neutral-dark mb-1">Date format on labels</label>
+            <select
+              id="dateOrder"
+              value={settings.dateOrder}
+              onChange={(e) => onChange({ ...settings, dateOrder: e.target.value as DateOrder })}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary"
+            >
+              {DATE_ORDER_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">Used when a scanned date like 03/04/25 could be read either way.</p>
+          </div>
+          <div>
+            <label htmlFor="expiringSoonDays" className="block text-sm font-medium text-neutral-dark mb-1">"Expiring soon" window (days)</label>
+            <input
+              id="expiringSoonDays"
+              type="number"
+              min={1}
+              max={60}
+              value={settings.expiringSoonDays}
+              onChange={(e) => {
+                const days = parseInt(e.target.value, 10);
+                if (!isNaN(days) && days > 0) onChange({ ...settings, expiringSoonDays: days });
+              }}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary"
+            />
+          </div>
+          <fieldset className="pt-4 border-t border-gray-200 space-y-3">
+            <legend className="block text-sm font-medium text-neutral-dark mb-1">Expiry reminders</legend>
+            {notificationsSupported() ? (
+              <>
+                <label className="flex items-center gap-2 text-sm text-neutral-dark">
+                  <input
+                    type="checkbox"
+                    checked={settings.expiryReminders}
+                    onChange={(e) => handleReminderToggle('expiryReminders', e.target.checked)}
+                  />
+                  Notify me
+                  <input
+                    type="number"
+                    min={0}
+                    max={14}
+                    value={settings.reminderDaysBefore}
+                    onChange={(e) => {
+                      const days = parseInt(e.target.value, 10);
+                      if (!isNaN(days) && days >= 0) onChange({ ...settings, reminderDaysBefore: days });
+                    }}
+                    className="w-16 p-1 border border-gray-300 rounded-md"
+                    aria-label="Days before expiry"
+                  />
+                  day(s) before each item expires
+                </label>
+                <label className="flex items-center gap-2 text-sm text-neutral-dark">
+                  <input
+                    type="checkbox"
+                    checked={settings.dailyDigest}
+                    onChange={(e) => handleReminderToggle('dailyDigest', e.target.checked)}
+                  />
+                  Daily digest of everything expiring soon
+                </label>
+                <p className="text-xs text-gray-500">Reminders show in the morning, or the next time your browser checks in.</p>
+              </>
+            ) : (
+              <p className="text-xs text-gray-500">This browser can't show notifications. Use the calendar export instead.</p>
+            )}
+            {permissionNotice && <p className="text-xs text-red-600">{permissionNotice}</p>}
+            <button
+              onClick={onExportCalendar}
+              className="w-full border border-primary text-primary px-4 py-2 rounded-lg font-medium hover:bg-blue-50 transition-colors"
+            >
+              Export Expiry Dates to Calendar (.ics)
+            </button>
+          </fieldset>
+          <fieldset className="pt-4 border-t border-gray-200 space-y-3">
+            <legend className="block text-sm font-medium text-neutral-dark mb-1">Photos</legend>
+            <label className="flex items-center gap-2 text-sm text-neutral-dark">
+              <input
+                type="checkbox"
+                checked={settings.cropToFrame}
+                onChange={(e) => onChange({ ...settings, cropToFrame: e.target.checked })}
+              />
+              Crop photos to the framing guide
+            </label>
+            <label className="flex items-center gap-2 text-sm text-neutral-dark">
+              <input
+                type="checkbox"
+                checked={settings.enhanceContrast}
+                onChange={(e) => onChange({ ...settings, enhanceContrast: e.target.checked })}
+              />
+              Boost contrast so small printed dates are easier to read
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="ocrImageSize" className="block text-xs text-neutral mb-1">Photo size</label>
+                <select
+                  id="ocrImageSize"
+                  value={settings.ocrImageSize}
+                  onChange={(e) => onChange({ ...settings, ocrImageSize: Number(e.target.value) })}
+                  className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-primary"
+                >
+                  {OCR_IMAGE_SIZE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="ocrImageQuality" className="block text-xs text-neutral mb-1">Photo quality</label>
+                <select
+                  id="ocrImageQuality"
+                  value={settings.ocrImageQuality}
+                  onChange={(e) => onChange({ ...settings, ocrImageQuality: Number(e.target.value) })}
+                  className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-primary"
+                >
+                  {IMAGE_QUALITY_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="thumbnailSize" className="block text-xs text-neutral mb-1">Thumbnail size</label>
+                <select
+                  id="thumbnailSize"
+                  value={settings.thumbnailSize}
+                  onChange={(e) => onChange({ ...settings, thumbnailSize: Number(e.target.value) })}
+                  className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-primary"
+                >
+                  {THUMBNAIL_SIZE_OPTIONS.map(size => (
+                    <option key={size} value={size}>{size} px</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="thumbnailQuality" className="block text-xs text-neutral mb-1">Thumbnail quality</label>
+                <select
+                  id="thumbnailQuality"
+                  value={settings.thumbnailQuality}
+                  onChange={(e) => onChange({ ...settings, thumbnailQuality: Number(e.target.value) })}
+                  className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-primary"
+                >
+                  {IMAGE_QUALITY_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">Smaller photos upload faster and take less space. Applies to new scans.</p>
+          </fieldset>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
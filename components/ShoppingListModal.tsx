@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { ShoppingListItem, StorageLocation } from '../types';
+import { ShoppingListEntry, ShoppingListFormat, MANUAL_SOURCE } from '../services/shoppingList';
+import { UNITS, formatLocation, formatQuantity } from '../services/pantryInventory';
+
+interface ShoppingListModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: ShoppingListItem[];
+  locations: StorageLocation[];
+  onAddItems: (entries: ShoppingListEntry[]) => void;
+  onToggleBought: (item: ShoppingListItem) => void;
+  onRemoveItems: (items: ShoppingListItem[]) => void;
+  onAddToPantry: (item: ShoppingListItem, location: StorageLocation) => void;
+  onExport: (format: ShoppingListFormat) => void;
+}
+
+const ShoppingListModal: React.FC<ShoppingListModalProps> = ({
+  isOpen,
+  onClose,
+  items,
+  locations,
+  onAddItems,
+  onToggleBought,
+  onRemoveItems,
+  onAddToPantry,
+  onExport,
+}) => {
+  const [name, setName] = useState<string>('');
+  const [quantity, setQuantity] = useState<number>(1);
+  const [unit, setUnit] = useState<string>('item');
+  // Where each bought item will go once added to the pantry
+  const [pantryLocations, setPantryLocations] = useState<Record<string, StorageLocation>>({});
+
+  if (!isOpen) return null;
+
+  const boughtItems = items.filter(item => item.checkedAt);
+
+  const handleAddManual = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || quantity <= 0) return;
+    onAddItems([{ name, quantity, unit, source: MANUAL_SOURCE }]);
+    setName('');
+    setQuantity(1);
+    setUnit('item');
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center z-50 p-4 transition-opacity"
+      aria-labelledby="shopping-list-modal-title"
+      role="dialog"
+      aria-modal="true"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()} // Prevent closing modal when clicking inside
+      >
+        <header className="p-5 border-b border-gray-200 flex justify-between items-center">
+          <h2 id="shopping-list-modal-title" className="text-2xl font-poppins font-semibold text-neutral-dark">
+            Shopping List
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="Close shopping list"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </header>
+
+        <form onSubmit={handleAddManual} className="px-6 pt-4 flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Add an item"
+            className="flex-grow min-w-0 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary"
+            aria-label="Item name"
+          />
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={quantity}
+            onChange={(e) => setQuantity(parseFloat(e.target.value) || 0)}
+            className="w-16 p-2 border border-gray-300 rounded-lg"
+            aria-label="Quantity"
+          />
+          <select
+            value={unit}
+            onChange={(e) => setUnit(e.target.value)}
+            className="p-2 border border-gray-300 rounded-lg"
+            aria-label="Unit"
+          >
+            {UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+          </select>
+          <button type="submit" className="bg-primary text-white px-4 py-2 rounded-lg font-semibold hover:bg-primary-dark transition-colors">
+            Add
+          </button>
+        </form>
+
+        <div className="p-6 overflow-y-auto flex-grow">
+          {items.length === 0 ? (
+            <div className="text-center py-10">
+              <p className="text-xl font-poppins text-neutral">Nothing to buy.</p>
+              <p className="text-sm text-gray-500 mt-1">Items you use up and ingredients missing from recipes land here.</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {items.map(item => (
+                <li key={item.id} className="py-3 flex items-start gap-3">
+                  <input
+                    type="checkbox"
+                    checked={!!item.checkedAt}
+                    onChange={() => onToggleBought(item)}
+                    className="mt-1"
+                    aria-label={`Bought ${item.name}`}
+                  />
+                  <div className="flex-grow min-w-0">
+                    <p className={item.checkedAt ? 'text-gray-400 line-through' : 'text-neutral-dark'}>
+                      {item.name} <span className="text-sm text-gray-500">· {formatQuantity(item)}</span>
+                    </p>
+                    <p className="text-xs text-gray-400 truncate">{item.sources.join(', ')}</p>
+                    {item.checkedAt && (
+                      <div className="mt-2 flex items-center gap-2">
+                        <select
+                          value={pantryLocations[item.id] ?? 'pantry'}
+                          onChange={(e) => setPantryLocations(prev => ({ ...prev, [item.id]: e.target.value }))}
+                          className="p-1 text-sm border border-gray-300 rounded-md"
+                          aria-label={`Where ${item.name} is kept`}
+                        >
+                          {locations.map(location => (
+                            <option key={location} value={location}>{formatLocation(location)}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => onAddToPantry(item, pantryLocations[item.id] ?? 'pantry')}
+                          className="px-3 py-1 rounded-md text-sm font-medium bg-secondary text-white hover:bg-green-600 transition-colors"
+                        >
+                          Add to pantry
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => onRemoveItems([item])}
+                    className="text-gray-400 hover:text-red-600 text-sm"
+                    aria-label={`Remove ${item.name}`}
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {boughtItems.length > 0 && (
+            <p className="text-xs text-gray-500 mt-3">
+              Added items wait in your pantry until you scan their expiry date.
+            </p>
+          )}
+        </div>
+
+        <div className="p-5 border-t border-gray-200 flex flex-wrap gap-3">
+          <button
+            onClick={() => onExport('text')}
+            disabled={items.length === 0}
+            className="px-4 py-2 rounded-lg border border-primary text-primary font-medium hover:bg-blue-50 disabled:opacity-50 transition-colors"
+          >
+            Share as Text
+          </button>
+          <button
+            onClick={() => onExport('markdown')}
+            disabled={items.length === 0}
+            className="px-4 py-2 rounded-lg border border-primary text-primary font-medium hover:bg-blue-50 disabled:opacity-50 transition-colors"
+          >
+            Share as Markdown
+          </button>
+          {boughtItems.length > 0 && (
+            <button
+              onClick={() => onRemoveItems(boughtItems)}
+              className="ml-auto px-4 py-2 rounded-lg text-neutral hover:text-neutral-dark"
+            >
+              Clear bought
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShoppingListModal;
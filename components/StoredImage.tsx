@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { usePantryRepository } from './PantryRepositoryContext';
+
+interface StoredImageProps {
+  imageId?: string; // Products may have no image of this kind
+  alt: string;
+  className?: string;
+}
+
+// Loads an image blob from storage only once the placeholder scrolls into view
+const StoredImage: React.FC<StoredImageProps> = ({ imageId, alt, className }) => {
+  const repository = usePantryRepository();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState<boolean>(false);
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const [isMissing, setIsMissing] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (isVisible) return;
+    const element = containerRef.current;
+    if (!element || typeof IntersectionObserver === 'undefined') {
+      setIsVisible(true);
+      return;
+    }
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setIsVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [isVisible]);
+
+  useEffect(() => {
+    // Drop the previous image straight away, so a changed or removed imageId never shows a stale (revoked) URL
+    setObjectUrl(null);
+    setIsMissing(false);
+    if (!imageId) {
+      setIsMissing(true);
+      return;
+    }
+    if (!isVisible) return;
+    let url: string | null = null;
+    let cancelled = false;
+    repository.getImage(imageId)
+      .then(blob => {
+        if (cancelled) return;
+        if (!blob) {
+          setIsMissing(true);
+          return;
+        }
+        url = URL.createObjectURL(blob);
+        setObjectUrl(url);
+      })
+      .catch(err => {
+        console.error("Failed to load image", err);
+        if (!cancelled) setIsMissing(true);
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [repository, imageId, isVisible]);
+
+  if (objectUrl) {
+    return <img src={objectUrl} alt={alt} className={className} />;
+  }
+
+  return (
+    <div ref={containerRef} className="rounded-md bg-gray-100 h-24 w-full flex items-center justify-center text-xs text-gray-400">
+      {isMissing ? 'No Image' : 'Loading...'}
+    </div>
+  );
+};
+
+export default StoredImage;
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Product } from '../types';
+import { formatQuantity, getStock } from '../services/pantryInventory';
+
+interface UseAmountDialogProps {
+  product: Product;
+  onConfirm: (amount: number) => void;
+  onCancel: () => void;
+}
+
+// Asks how much of a weighed or measured item was used, since taking "one" gram or litre off means nothing
+const UseAmountDialog: React.FC<UseAmountDialogProps> = ({ product, onConfirm, onCancel }) => {
+  const stock = getStock(product);
+  const [amount, setAmount] = useState<string>('');
+  const parsedAmount = parseFloat(amount);
+  const isValid = !isNaN(parsedAmount) && parsedAmount > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isValid) onConfirm(Math.min(parsedAmount, stock.quantity));
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center z-50 p-4 transition-opacity"
+      aria-labelledby="use-amount-dialog-title"
+      role="dialog"
+      aria-modal="true"
+      onClick={onCancel}
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-sm"
+        onClick={e => e.stopPropagation()} // Prevent closing modal when clicking inside
+      >
+        <header className="p-5 border-b border-gray-200">
+          <h2 id="use-amount-dialog-title" className="text-xl font-poppins font-semibold text-neutral-dark">
+            Use some {product.name || 'of this item'}
+          </h2>
+          <p className="text-sm text-neutral mt-1">There is {formatQuantity(stock)} left. How much did you use?</p>
+        </header>
+
+        <div className="p-5 space-y-3">
+          <label htmlFor="useAmount" className="sr-only">Amount used</label>
+          <div className="flex items-center gap-2">
+            <input
+              id="useAmount"
+              type="number"
+              min="0"
+              step="any"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="flex-grow px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+              autoFocus
+            />
+            <span className="text-neutral">{stock.unit}</span>
+          </div>
+          <button
+            type="submit"
+            disabled={!isValid}
+            className="w-full bg-secondary text-white px-4 py-2 rounded-lg font-semibold hover:bg-green-600 transition-colors disabled:opacity-50"
+          >
+            Use
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm(stock.quantity)}
+            className="w-full bg-green-700 text-white px-4 py-2 rounded-lg font-semibold hover:bg-green-800 transition-colors"
+          >
+            Use it all
+          </button>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="w-full px-4 py-2 rounded-lg text-neutral hover:text-neutral-dark"
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default UseAmountDialog;
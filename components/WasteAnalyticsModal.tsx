@@ -0,0 +1,147 @@
+import React, { useMemo } from 'react';
+import { PantryEvent, RemovalOutcome } from '../types';
+import { buildWasteReport } from '../services/wasteAnalytics';
+import { REMOVAL_OUTCOME_LABELS } from '../services/pantryLog';
+import { formatPrice } from '../services/pantryInventory';
+
+interface WasteAnalyticsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  events: PantryEvent[];
+}
+
+const OUTCOME_ORDER: RemovalOutcome[] = ['consumed', 'discarded', 'given-away'];
+
+const OUTCOME_COLOURS: Record<RemovalOutcome, string> = {
+  consumed: 'bg-green-500',
+  discarded: 'bg-red-500',
+  'given-away': 'bg-blue-500',
+};
+
+const formatPercent = (rate: number | null): string => (rate === null ? '–' : `${Math.round(rate * 100)}%`);
+
+const WasteAnalyticsModal: React.FC<WasteAnalyticsModalProps> = ({ isOpen, onClose, events }) => {
+  const report = useMemo(() => buildWasteReport(events, new Date()), [events]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center z-50 p-4 transition-opacity"
+      aria-labelledby="waste-analytics-modal-title"
+      role="dialog"
+      aria-modal="true"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()} // Prevent closing modal when clicking inside
+      >
+        <header className="p-5 border-b border-gray-200 flex justify-between items-center">
+          <h2 id="waste-analytics-modal-title" className="text-2xl font-poppins font-semibold text-neutral-dark">
+            Food Waste
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="Close food waste"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </header>
+
+        <div className="p-6 overflow-y-auto flex-grow space-y-6">
+          {events.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center">
+              Nothing has left the pantry yet. When you use up or remove an item, it will be counted here.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-2xl font-bold text-neutral-dark">{formatPercent(report.wasteRate)}</p>
+                  <p className="text-xs text-neutral">thrown away</p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-2xl font-bold text-neutral-dark">{report.counts.discarded}</p>
+                  <p className="text-xs text-neutral">items wasted</p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-2xl font-bold text-neutral-dark">
+                    {report.averageDaysToUse === null ? '–' : Math.round(report.averageDaysToUse)}
+                  </p>
+                  <p className="text-xs text-neutral">days on average to use an item</p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-2xl font-bold text-neutral-dark">{report.pricedDiscards > 0 ? formatPrice(report.moneyLost) : '–'}</p>
+                  <p className="text-xs text-neutral">money lost</p>
+                </div>
+              </div>
+              {report.counts.discarded > 0 && report.pricedDiscards < report.counts.discarded && (
+                <p className="text-xs text-gray-500 -mt-3">
+                  {report.pricedDiscards === 0
+                    ? 'Add prices when saving items to see how much waste costs.'
+                    : `Money lost counts the ${report.pricedDiscards} of ${report.counts.discarded} wasted items that had a price.`}
+                </p>
+              )}
+
+              <section>
+                <h3 className="text-lg font-poppins font-semibold text-neutral-dark mb-3">By month</h3>
+                <div className="space-y-2">
+                  {report.months.map(month => {
+                    const monthTotal = OUTCOME_ORDER.reduce((sum, outcome) => sum + month.counts[outcome], 0);
+                    return (
+                      <div key={month.key} className="flex items-center gap-3 text-sm">
+                        <span className="w-20 shrink-0 text-neutral">{month.label}</span>
+                        <div className="flex-grow flex h-4 rounded-full overflow-hidden bg-gray-100" title={`${monthTotal} items`}>
+                          {monthTotal > 0 && OUTCOME_ORDER.map(outcome => (
+                            <div
+                              key={outcome}
+                              className={OUTCOME_COLOURS[outcome]}
+                              style={{ width: `${(month.counts[outcome] / monthTotal) * 100}%` }}
+                            />
+                          ))}
+                        </div>
+                        <span className="w-12 shrink-0 text-right font-medium text-neutral-dark">{formatPercent(month.wasteRate)}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="flex flex-wrap gap-4 mt-3 text-xs text-neutral">
+                  {OUTCOME_ORDER.map(outcome => (
+                    <span key={outcome} className="flex items-center gap-1.5">
+                      <span className={`h-2.5 w-2.5 rounded-full ${OUTCOME_COLOURS[outcome]}`}></span>
+                      {REMOVAL_OUTCOME_LABELS[outcome]} ({report.counts[outcome]})
+                    </span>
+                  ))}
+                </div>
+              </section>
+
+              <section>
+                <h3 className="text-lg font-poppins font-semibold text-neutral-dark mb-3">Most often thrown away</h3>
+                {report.mostWasted.length === 0 ? (
+                  <p className="text-sm text-gray-500">Nothing has been thrown away. Well done!</p>
+                ) : (
+                  <ol className="space-y-1 text-sm">
+                    {report.mostWasted.map(product => (
+                      <li key={product.name} className="flex justify-between gap-3">
+                        <span className="text-neutral-dark truncate">{product.name}</span>
+                        <span className="text-neutral shrink-0">
+                          {product.times}×{product.value > 0 && ` · ${formatPrice(product.value)}`}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WasteAnalyticsModal;
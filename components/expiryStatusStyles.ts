@@ -0,0 +1,10 @@
+import { ExpiryStatus } from '../types';
+
+// Tailwind classes shared by the product cards and the status summary bar
+export const EXPIRY_STATUS_STYLES: Record<ExpiryStatus, { border: string; badge: string; dot: string }> = {
+  [ExpiryStatus.EXPIRED]: { border: 'border-red-500', badge: 'bg-red-100 text-red-700', dot: 'bg-red-500' },
+  [ExpiryStatus.EXPIRES_TODAY]: { border: 'border-orange-500', badge: 'bg-orange-100 text-orange-700', dot: 'bg-orange-500' },
+  [ExpiryStatus.EXPIRING_SOON]: { border: 'border-amber-400', badge: 'bg-amber-100 text-amber-700', dot: 'bg-amber-400' },
+  [ExpiryStatus.FRESH]: { border: 'border-green-500', badge: 'bg-green-100 text-green-700', dot: 'bg-green-500' },
+  [ExpiryStatus.UNKNOWN]: { border: 'border-gray-300', badge: 'bg-gray-100 text-gray-600', dot: 'bg-gray-400' },
+};
@@ -2,15 +2,32 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { createBrowserPantryRepository } from './services/browserPantryRepository';
+import { loadAiConfig } from './services/aiProvider';
+import { createAiProvider } from './services/aiProviderFactory';
+import { createBrowserRecipeBook } from './services/recipeBook';
+import { createBrowserShoppingList } from './services/shoppingList';
+import { createBrowserPantryLog } from './services/pantryLog';
+import { registerServiceWorker } from './services/reminderScheduler';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+registerServiceWorker();
+
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+createAiProvider(loadAiConfig()).then(aiProvider => {
+  root.render(
+    <React.StrictMode>
+      <App
+        repository={createBrowserPantryRepository()}
+        aiProvider={aiProvider}
+        recipeBook={createBrowserRecipeBook()}
+        shoppingList={createBrowserShoppingList()}
+        pantryLog={createBrowserPantryLog()}
+      />
+    </React.StrictMode>
+  );
+});
@@ -0,0 +1,145 @@
+// Service worker for Pantry Pal Scanner. Caches the app so it opens offline, and shows expiry reminders
+// planned by the app (services/expiryReminders.ts). Plain JavaScript: it is served as-is from /public rather than bundled.
+
+// Bump to drop everything cached by older versions
+const CACHE_NAME = 'pantry-pal-v2';
+// The app shell. Bundled asset names are hashed and unknown here, so they are cached the first time they are fetched.
+const PRECACHE_URLS = ['./', './manifest.webmanifest', './icon.svg', './icon-maskable.svg'];
+// Where the build puts the bundled, hashed assets; a cached copy of one of these can never be out of date
+const BUILT_ASSETS_PATH = new URL('./assets/', self.location).pathname;
+// Styles and fonts loaded from CDNs by index.html
+const CACHEABLE_ORIGINS = ['https://cdn.tailwindcss.com', 'https://fonts.googleapis.com', 'https://fonts.gstatic.com'];
+
+const REMINDER_DB = 'pantryPalReminders';
+const STATE_STORE = 'state';
+const REMINDER_SYNC_TAG = 'expiry-reminders';
+
+const openReminderDb = () =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(REMINDER_DB, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STATE_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const readState = async (key, fallback) => {
+  const db = await openReminderDb();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STATE_STORE, 'readonly').objectStore(STATE_STORE).get(key);
+    request.onsuccess = () => resolve(request.result ?? fallback);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const writeState = async (entries) => {
+  const db = await openReminderDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STATE_STORE, 'readwrite');
+    Object.entries(entries).forEach(([key, value]) => transaction.objectStore(STATE_STORE).put(value, key));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Shows every planned reminder that has fallen due and hasn't been shown yet
+const showDueReminders = async () => {
+  if (self.Notification?.permission !== 'granted') return;
+  const reminders = await readState('reminders', []);
+  const shown = new Set(await readState('shown', []));
+  const now = Date.now();
+  const due = reminders.filter(reminder => !shown.has(reminder.tag) && Date.parse(reminder.fireAt) <= now);
+  for (const reminder of due) {
+    await self.registration.showNotification(reminder.title, { body: reminder.body, tag: reminder.tag });
+    shown.add(reminder.tag);
+  }
+  if (due.length > 0) await writeState({ shown: [...shown] });
+};
+
+// Replaces the plan. Tags that are no longer planned are forgotten, so the shown list doesn't grow forever.
+const scheduleReminders = async (reminders) => {
+  const planned = new Set(reminders.map(reminder => reminder.tag));
+  const shown = (await readState('shown', [])).filter(tag => planned.has(tag));
+  await writeState({ reminders, shown });
+  await showDueReminders();
+};
+
+const isAppShell = url => PRECACHE_URLS.some(shellUrl => new URL(shellUrl, self.location).href === url.href);
+
+// Anything else on this origin always comes from the network, so nothing unbundled is ever served stale
+const isCacheable = request => {
+  if (request.method !== 'GET') return false;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return CACHEABLE_ORIGINS.includes(url.origin);
+  return request.mode === 'navigate' || url.pathname.startsWith(BUILT_ASSETS_PATH) || isAppShell(url);
+};
+
+// Pages come from the network when there is one, so a new deploy shows up straight away
+const networkFirst = async request => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (e) {
+    return (await cache.match(request)) ?? (await cache.match('./')) ?? Response.error();
+  }
+};
+
+// Assets are served from the cache at once and refreshed in the background for next time
+const staleWhileRevalidate = async (request, event) => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  const refresh = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached ?? Response.error());
+  if (cached) {
+    event.waitUntil(refresh);
+    return cached;
+  }
+  return refresh;
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    // One missing file shouldn't stop the worker installing
+    await Promise.all(PRECACHE_URLS.map(url => cache.add(url).catch(e => console.warn(`Failed to precache ${url}`, e))));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name !== CACHE_NAME).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (!isCacheable(request)) return;
+  event.respondWith(request.mode === 'navigate' ? networkFirst(request) : staleWhileRevalidate(request, event));
+});
+
+self.addEventListener('message', event => {
+  if (event.data?.type === 'schedule-reminders') {
+    event.waitUntil(scheduleReminders(event.data.reminders ?? []));
+  }
+});
+
+self.addEventListener('periodicsync', event => {
+  if (event.tag === REMINDER_SYNC_TAG) event.waitUntil(showDueReminders());
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length > 0) return windows[0].focus();
+    return self.clients.openWindow(self.registration.scope);
+  })());
+});
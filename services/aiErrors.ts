@@ -0,0 +1,86 @@
+export type AiErrorKind = 'auth' | 'quota' | 'network' | 'timeout' | 'safety-blocked' | 'malformed-response' | 'bad-request' | 'cancelled' | 'unknown';
+
+// Base class for every failure an AiProvider can report. `retryable` marks failures that may succeed
+// if the same request is simply sent again; the UI uses `kind` to pick a recovery action.
+export class AiError extends Error {
+  readonly kind: AiErrorKind;
+  readonly retryable: boolean;
+
+  constructor(kind: AiErrorKind, message: string, retryable: boolean, options?: { cause?: unknown }) {
+    super(message);
+    this.name = 'AiError';
+    this.kind = kind;
+    this.retryable = retryable;
+    if (options?.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+export class AiAuthError extends AiError {
+  constructor(message: string = "The AI service rejected the API key. Please check your configuration.", options?: { cause?: unknown }) {
+    super('auth', message, false, options);
+    this.name = 'AiAuthError';
+  }
+}
+
+export class AiQuotaError extends AiError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string = "The AI service is rate limiting requests or the quota is used up.", retryAfterMs?: number, options?: { cause?: unknown }) {
+    super('quota', message, true, options);
+    this.name = 'AiQuotaError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class AiNetworkError extends AiError {
+  constructor(message: string = "Could not reach the AI service. Check your connection.", options?: { cause?: unknown }) {
+    super('network', message, true, options);
+    this.name = 'AiNetworkError';
+  }
+}
+
+export class AiTimeoutError extends AiError {
+  constructor(timeoutMs: number, options?: { cause?: unknown }) {
+    super('timeout', `The AI service did not answer within ${Math.round(timeoutMs / 1000)} seconds.`, true, options);
+    this.name = 'AiTimeoutError';
+  }
+}
+
+export class AiSafetyBlockedError extends AiError {
+  constructor(message: string = "The AI service declined to read this image.", options?: { cause?: unknown }) {
+    super('safety-blocked', message, false, options);
+    this.name = 'AiSafetyBlockedError';
+  }
+}
+
+export class AiMalformedResponseError extends AiError {
+  constructor(message: string = "The AI service sent back an answer that could not be understood.", options?: { cause?: unknown }) {
+    super('malformed-response', message, false, options);
+    this.name = 'AiMalformedResponseError';
+  }
+}
+
+export class AiBadRequestError extends AiError {
+  constructor(message: string = "The AI service could not process this request.", options?: { cause?: unknown }) {
+    super('bad-request', message, false, options);
+    this.name = 'AiBadRequestError';
+  }
+}
+
+export class AiCancelledError extends AiError {
+  constructor(options?: { cause?: unknown }) {
+    super('cancelled', "The request was cancelled.", false, options);
+    this.name = 'AiCancelledError';
+  }
+}
+
+export class AiUnknownError extends AiError {
+  constructor(message: string = "Something went wrong while talking to the AI service.", options?: { cause?: unknown }) {
+    super('unknown', message, false, options);
+    this.name = 'AiUnknownError';
+  }
+}
+
+export const isAiError = (error: unknown): error is AiError => error instanceof AiError;
@@ -0,0 +1,48 @@
+import { ExtractedProductDetails, PantryIngredient, Recipe, RecipePreferences } from '../types';
+
+// Suggestions that survived validation, plus a note of anything that was repaired or dropped
+export interface RecipeSuggestions {
+  recipes: Recipe[];
+  warnings: string[];
+}
+
+export interface AiCallOptions {
+  signal?: AbortSignal; // Aborting rejects the call with an AiCancelledError
+}
+
+// Everything the app asks of an AI model, with failures reported as AiErrors (see aiErrors.ts).
+// Like PantryRepository, components only see this interface, so the Gemini client can be swapped
+// for the offline mock (or another model vendor) from config.
+export interface AiProvider {
+  extractProductName(imageBase64DataUrl: string, options?: AiCallOptions): Promise<string>;
+  // The date text exactly as printed, including its label (e.g. 'BB 12/03/25')
+  extractExpiryText(imageBase64DataUrl: string, options?: AiCallOptions): Promise<string>;
+  // Reads the product name and date label from a single photo showing both
+  extractProductDetails(imageBase64DataUrl: string, options?: AiCallOptions): Promise<ExtractedProductDetails>;
+  suggestRecipes(ingredients: PantryIngredient[], preferences: RecipePreferences, options?: AiCallOptions): Promise<RecipeSuggestions>;
+}
+
+export type AiProviderName = 'gemini' | 'mock';
+
+export interface AiConfig {
+  provider: AiProviderName;
+  model: string;
+  apiKey?: string;
+}
+
+const AI_PROVIDERS: AiProviderName[] = ['gemini', 'mock'];
+
+export const DEFAULT_AI_MODEL = 'gemini-2.5-flash';
+
+// Values come from .env.local through vite.config.ts (AI_PROVIDER, AI_MODEL, GEMINI_API_KEY)
+export const loadAiConfig = (): AiConfig => {
+  const provider = process.env.AI_PROVIDER as AiProviderName | undefined;
+  if (provider && !AI_PROVIDERS.includes(provider)) {
+    console.error(`Unknown AI_PROVIDER "${provider}", falling back to gemini. Expected one of: ${AI_PROVIDERS.join(', ')}.`);
+  }
+  return {
+    provider: provider && AI_PROVIDERS.includes(provider) ? provider : 'gemini',
+    model: process.env.AI_MODEL || DEFAULT_AI_MODEL,
+    apiKey: process.env.API_KEY,
+  };
+};
@@ -0,0 +1,17 @@
+import { AiConfig, AiProvider } from './aiProvider';
+import { createGeminiProvider } from './geminiService';
+import { createMockAiProvider, MockAiFixtures } from './mockAiProvider';
+
+// The fixtures are only loaded when the mock is selected, so they stay out of the main bundle
+export const createAiProvider = async (config: AiConfig): Promise<AiProvider> => {
+  switch (config.provider) {
+    case 'mock': {
+      const { default: mockAiFixtures } = await import('../fixtures/mockAi.json');
+      // JSON imports widen string unions such as labelType to plain strings
+      return createMockAiProvider(mockAiFixtures as MockAiFixtures);
+    }
+    case 'gemini':
+    default:
+      return createGeminiProvider({ apiKey: config.apiKey, model: config.model });
+  }
+};
@@ -0,0 +1,46 @@
+import { ExpiryLabelType, ExtractedProductDetails, Recipe } from '../types';
+import { Validator, anyOf, arrayOf, map, number, object, oneOf, optional, string, validate, withDefault } from './schemaValidator';
+import { AiMalformedResponseError } from './aiErrors';
+
+export const LABEL_TYPES: ExpiryLabelType[] = ['use-by', 'best-before', 'sell-by', 'packed-on', 'unknown'];
+
+export const productDetailsSchema: Validator<ExtractedProductDetails> = object<ExtractedProductDetails>({
+  name: withDefault(string({ allowEmpty: true }), ''),
+  nameConfidence: withDefault(number({ min: 0, max: 1 }), 0),
+  expiryText: withDefault(string({ allowEmpty: true }), ''),
+  labelType: withDefault(oneOf(LABEL_TYPES), 'unknown'),
+});
+
+const recipeSchema: Validator<Recipe> = object<Recipe>({
+  recipeName: string(),
+  ingredients: arrayOf(string(), { min: 1 }),
+  // Models sometimes send the steps as a list instead of one block of text
+  instructions: anyOf(string(), map(arrayOf(string(), { min: 1 }), steps => steps.join('\n'))),
+  // Older or less careful answers leave these out; the recipe is still usable, just unranked
+  usesPantryItems: withDefault(arrayOf(string()), []),
+  missingIngredients: withDefault(arrayOf(string()), []),
+  prepTimeMinutes: optional(number({ min: 1, max: 24 * 60 })),
+  servings: optional(number({ min: 1, max: 100 })),
+  // Missing tags are unknown rather than "none", so they stay missing for the allergen check to see
+  allergens: optional(arrayOf(map(string(), tag => tag.toLowerCase()))),
+});
+
+// Also accepts the list wrapped in an object, e.g. { "recipes": [...] }
+export const recipeListSchema: Validator<Recipe[]> = anyOf(
+  arrayOf(recipeSchema),
+  map(object<{ recipes: Recipe[] }>({ recipes: arrayOf(recipeSchema) }), ({ recipes }) => recipes),
+);
+
+// Checks parsed AI output against a schema. Repairs and dropped entries come back as warnings;
+// output that can't be used at all is an AiMalformedResponseError.
+export const validateAiOutput = <T>(input: unknown, schema: Validator<T>, label: string): { value: T; warnings: string[] } => {
+  const result = validate(schema, input, label);
+  if (!result.ok) {
+    console.error(`AI ${label} failed validation:`, result.warnings, input);
+    throw new AiMalformedResponseError();
+  }
+  if (result.warnings.length > 0) {
+    console.warn(`AI ${label} needed repairs:`, result.warnings);
+  }
+  return { value: result.value, warnings: result.warnings };
+};
@@ -0,0 +1,42 @@
+// Minimal typing for the Barcode Detection API, which TypeScript's DOM lib does not include yet
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+export interface BarcodeDetectorLike {
+  detect(source: CanvasImageSource): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorLike;
+
+const RETAIL_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e'];
+
+// Returns null where the browser has no native barcode detection (e.g. desktop Firefox, iOS Safari before 17)
+export const createBarcodeDetector = (): BarcodeDetectorLike | null => {
+  const Detector = (globalThis as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  if (!Detector) return null;
+  try {
+    return new Detector({ formats: RETAIL_FORMATS });
+  } catch (e) {
+    console.error("Failed to create BarcodeDetector", e);
+    return null;
+  }
+};
+
+// EAN-8, UPC-A (12 digits) and EAN-13 share the same mod-10 check digit
+export const isValidRetailBarcode = (code: string): boolean => {
+  if (!/^(\d{8}|\d{12}|\d{13})$/.test(code)) return false;
+  const digits = code.split('').map(Number);
+  const checkDigit = digits.pop() as number;
+  const sum = digits
+    .reverse()
+    .reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === checkDigit;
+};
+
+export const detectRetailBarcode = async (detector: BarcodeDetectorLike, source: CanvasImageSource): Promise<string | null> => {
+  const barcodes = await detector.detect(source);
+  const match = barcodes.find(barcode => isValidRetailBarcode(barcode.rawValue));
+  return match ? match.rawValue : null;
+};
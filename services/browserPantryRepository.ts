@@ -0,0 +1,111 @@
+import { Product } from '../types';
+import {
+  PantryRepository,
+  ExpiryQuery,
+  ProductNotFoundError,
+  matchesExpiryQuery,
+  staleImageIds,
+  createChangeNotifier,
+} from './pantryRepository';
+import {
+  loadProducts,
+  loadProduct,
+  saveProduct,
+  deleteProduct,
+  writeProductChanges,
+  loadImage,
+  migrateFromLocalStorage,
+  loadQuarantinedRecords,
+  deleteQuarantinedRecord,
+} from './pantryDb';
+
+const CHANGE_CHANNEL = 'pantry-changes';
+
+// IndexedDB-backed repository used in production. Changes made in other tabs are picked up via BroadcastChannel.
+export const createBrowserPantryRepository = (): PantryRepository => {
+  let ready: Promise<void> | null = null;
+
+  // Old localStorage data is moved over before the first read; a failed migration is retried next load.
+  // Stored records are upgraded and validated by every read, so nothing depends on this succeeding.
+  const ensureReady = () => {
+    if (!ready) {
+      ready = migrateFromLocalStorage()
+        .then(() => undefined)
+        .catch(e => console.error("Failed to migrate products from localStorage", e));
+    }
+    return ready;
+  };
+
+  const list = async (): Promise<Product[]> => {
+    await ensureReady();
+    return loadProducts();
+  };
+
+  const notifier = createChangeNotifier(list);
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANGE_CHANNEL) : null;
+  if (channel) {
+    channel.onmessage = () => { notifier.notify(); };
+  }
+
+  const changed = async () => {
+    channel?.postMessage('changed');
+    await notifier.notify();
+  };
+
+  return {
+    list,
+
+    get: async (productId) => {
+      await ensureReady();
+      return loadProduct(productId);
+    },
+
+    add: async (product, images) => {
+      await ensureReady();
+      if (await loadProduct(product.id)) {
+        throw new Error(`Product ${product.id} already exists.`);
+      }
+      await saveProduct(product, images);
+      await changed();
+      return product;
+    },
+
+    update: async (product, images) => {
+      await ensureReady();
+      const previous = await loadProduct(product.id);
+      if (!previous) {
+        throw new ProductNotFoundError(product.id);
+      }
+      await saveProduct(product, images, staleImageIds(previous, product));
+      await changed();
+      return product;
+    },
+
+    delete: async (productId) => {
+      await ensureReady();
+      const product = await loadProduct(productId);
+      if (!product) return;
+      await deleteProduct(product);
+      await changed();
+    },
+
+    applyChanges: async ({ save, deleteIds }) => {
+      await ensureReady();
+      await writeProductChanges(save, deleteIds);
+      await changed();
+    },
+
+    queryByExpiry: async (query: ExpiryQuery) => (await list()).filter(p => matchesExpiryQuery(p, query)),
+
+    getImage: loadImage,
+
+    listQuarantined: async () => {
+      await ensureReady();
+      return loadQuarantinedRecords();
+    },
+
+    discardQuarantined: deleteQuarantinedRecord,
+
+    watch: notifier.watch,
+  };
+};
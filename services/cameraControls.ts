@@ -0,0 +1,96 @@
+const CAMERA_KEY = 'pantryCameraDeviceId';
+
+// Torch, zoom and focus are only in the Image Capture spec, not TypeScript's DOM lib, and only some
+// browsers (mostly Chromium on Android) report them
+interface ImageCaptureCapabilities extends MediaTrackCapabilities {
+  torch?: boolean;
+  zoom?: { min: number; max: number; step: number };
+  focusMode?: string[];
+}
+
+interface ImageCaptureConstraintSet extends MediaTrackConstraintSet {
+  torch?: boolean;
+  zoom?: number;
+  focusMode?: string;
+  pointsOfInterest?: { x: number; y: number }[];
+}
+
+export interface ZoomRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// What the current camera lets us change; anything null or false is left out of the UI
+export interface CameraControls {
+  torch: boolean;
+  zoom: ZoomRange | null;
+  tapToFocus: boolean;
+}
+
+export const NO_CAMERA_CONTROLS: CameraControls = { torch: false, zoom: null, tapToFocus: false };
+
+export const loadPreferredCamera = (): string | null => {
+  try {
+    return localStorage.getItem(CAMERA_KEY);
+  } catch (e) {
+    console.error("Failed to load camera choice from localStorage", e);
+    return null;
+  }
+};
+
+export const savePreferredCamera = (deviceId: string): void => {
+  try {
+    localStorage.setItem(CAMERA_KEY, deviceId);
+  } catch (e) {
+    console.error("Failed to save camera choice to localStorage", e);
+  }
+};
+
+// Labels are empty until camera permission has been granted, so call this once a stream is running
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput' && device.deviceId);
+};
+
+// A chosen camera is asked for by id; otherwise the rear camera is preferred. High resolution helps with small
+// print, and captures are downscaled afterwards anyway.
+const videoConstraints = (deviceId: string | null): MediaTrackConstraints => ({
+  ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'environment' }),
+  width: { ideal: 1920 },
+  height: { ideal: 1080 },
+});
+
+export const openCamera = async (preferredDeviceId: string | null): Promise<MediaStream> => {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ video: videoConstraints(preferredDeviceId) });
+  } catch (err) {
+    // The remembered camera may have been unplugged; fall back to whichever rear camera there is
+    const isMissingDevice = err instanceof Error && (err.name === 'OverconstrainedError' || err.name === 'NotFoundError');
+    if (!preferredDeviceId || !isMissingDevice) throw err;
+    return navigator.mediaDevices.getUserMedia({ video: videoConstraints(null) });
+  }
+};
+
+export const getCameraControls = (track: MediaStreamTrack): CameraControls => {
+  if (typeof track.getCapabilities !== 'function') return NO_CAMERA_CONTROLS;
+  const capabilities = track.getCapabilities() as ImageCaptureCapabilities;
+  const zoom = capabilities.zoom && capabilities.zoom.max > capabilities.zoom.min ? capabilities.zoom : null;
+  return {
+    torch: capabilities.torch === true,
+    zoom: zoom ? { min: zoom.min, max: zoom.max, step: zoom.step || 0.1 } : null,
+    tapToFocus: !!capabilities.focusMode?.includes('single-shot'),
+  };
+};
+
+const applyAdvanced = (track: MediaStreamTrack, constraints: ImageCaptureConstraintSet): Promise<void> =>
+  track.applyConstraints({ advanced: [constraints] });
+
+export const setTorch = (track: MediaStreamTrack, isOn: boolean): Promise<void> => applyAdvanced(track, { torch: isOn });
+
+export const setZoom = (track: MediaStreamTrack, zoom: number): Promise<void> => applyAdvanced(track, { zoom });
+
+// Focuses once on a point given as fractions of the camera frame. Cameras that ignore the point still refocus.
+export const focusAt = (track: MediaStreamTrack, point: { x: number; y: number }): Promise<void> =>
+  applyAdvanced(track, { focusMode: 'single-shot', pointsOfInterest: [point] });
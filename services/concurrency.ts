@@ -0,0 +1,28 @@
+// Runs at most `limit` tasks at a time; the rest wait in order
+export const createConcurrencyLimiter = (limit: number) => {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const startNext = () => {
+    if (active >= limit) return;
+    const start = waiting.shift();
+    if (!start) return;
+    active += 1;
+    start();
+  };
+
+  const run = <T>(task: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      waiting.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active -= 1;
+            startNext();
+          });
+      });
+      startNext();
+    });
+
+  return { run };
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { detectLabelType, needsConfirmation, parseExpiryText, parseIsoDate } from './expiryParser';
+
+const REFERENCE_DATE = new Date(2025, 5, 15);
+
+describe('parseExpiryText', () => {
+  it('reads year-first dates with high confidence', () => {
+    const parsed = parseExpiryText('EXP 2025-03-12', 'DMY', REFERENCE_DATE);
+    expect(parsed).toMatchObject({ isoDate: '2025-03-12', labelType: 'use-by', format: 'iso', alternatives: [] });
+    expect(needsConfirmation(parsed)).toBe(false);
+  });
+
+  it('reads ambiguous numeric dates in the preferred order and offers the other reading', () => {
+    const dayFirst = parseExpiryText('BB 05/03/25', 'DMY', REFERENCE_DATE);
+    expect(dayFirst).toMatchObject({ isoDate: '2025-03-05', labelType: 'best-before', alternatives: ['2025-05-03'] });
+    expect(needsConfirmation(dayFirst)).toBe(true);
+
+    const monthFirst = parseExpiryText('BB 05/03/25', 'MDY', REFERENCE_DATE);
+    expect(monthFirst).toMatchObject({ isoDate: '2025-05-03', alternatives: ['2025-03-05'] });
+  });
+
+  it('settles numeric dates that can only be read one way', () => {
+    expect(parseExpiryText('25/12/2025', 'MDY', REFERENCE_DATE)).toMatchObject({ isoDate: '2025-12-25', alternatives: [] });
+  });
+
+  it('reads month names in either order', () => {
+    expect(parseExpiryText('Best before 12 Mar 2026', 'DMY', REFERENCE_DATE).isoDate).toBe('2026-03-12');
+    expect(parseExpiryText('USE BY MARCH 12, 2026', 'DMY', REFERENCE_DATE).isoDate).toBe('2026-03-12');
+  });
+
+  it('takes a month and year as the end of that month', () => {
+    expect(parseExpiryText('BBE FEB 2024', 'DMY', REFERENCE_DATE)).toMatchObject({ isoDate: '2024-02-29', format: 'month-year' });
+    expect(parseExpiryText('11/26', 'DMY', REFERENCE_DATE)).toMatchObject({ isoDate: '2026-11-30', format: 'month-year' });
+  });
+
+  it('treats a bare julian code as a packing date', () => {
+    expect(parseExpiryText('25032', 'DMY', REFERENCE_DATE)).toMatchObject({ isoDate: '2025-02-01', format: 'julian', labelType: 'packed-on' });
+  });
+
+  it('reports text without a date as unrecognised', () => {
+    expect(parseExpiryText('SELL BY', 'DMY', REFERENCE_DATE)).toMatchObject({ isoDate: null, labelType: 'sell-by', format: 'unrecognized', confidence: 0 });
+    expect(parseExpiryText('', 'DMY', REFERENCE_DATE).isoDate).toBeNull();
+  });
+});
+
+describe('detectLabelType', () => {
+  it('recognises the common label wordings', () => {
+    expect(detectLabelType('MHD 01.02.2025')).toBe('best-before');
+    expect(detectLabelType('display until 3 jan')).toBe('sell-by');
+    expect(detectLabelType('PKD 2025-01-01')).toBe('packed-on');
+    expect(detectLabelType('12/03/25')).toBe('unknown');
+  });
+});
+
+describe('parseIsoDate', () => {
+  it('rejects dates that do not exist', () => {
+    expect(parseIsoDate('2025-02-29')).toBeNull();
+    expect(parseIsoDate('2024-02-29')).toEqual(new Date(2024, 1, 29));
+    expect(parseIsoDate('2025-02-30')).toBeNull();
+    expect(parseIsoDate('12 March')).toBeNull();
+  });
+
+  it('reads stored dates as local midnight', () => {
+    expect(parseIsoDate('2025-03-12')).toEqual(new Date(2025, 2, 12));
+  });
+});
@@ -0,0 +1,207 @@
+import { DateOrder, ExpiryFormat, ExpiryLabelType, ParsedExpiry } from '../types';
+
+const LABEL_PATTERNS: { type: ExpiryLabelType; pattern: RegExp }[] = [
+  { type: 'best-before', pattern: /\b(BEST\s*BEFORE(\s*END)?|BEST\s*BY|BEST\s*IF\s*USED\s*BY|BBE|BB|MHD)\b/ },
+  { type: 'use-by', pattern: /\b(USE\s*BY|USE\s*BEFORE|EXPIRY(\s*DATE)?|EXPIRES|EXP|UB)\b/ },
+  { type: 'sell-by', pattern: /\b(SELL\s*BY|DISPLAY\s*UNTIL|SB)\b/ },
+  { type: 'packed-on', pattern: /\b(PACKED(\s*ON)?|PACK\s*DATE|PKD|MFG|MFD|PRODUCED(\s*ON)?|PROD)\b/ },
+];
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const MONTH_NAME = '(JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC)[A-Z]*\\.?';
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+export const toIsoDate = (year: number, month: number, day: number): string | null => {
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const expandYear = (year: string): number => {
+  const value = parseInt(year, 10);
+  return year.length <= 2 ? 2000 + value : value;
+};
+
+const monthFromName = (name: string): number => MONTHS.indexOf(name.slice(0, 3)) + 1;
+
+export const detectLabelType = (text: string): ExpiryLabelType => {
+  const upper = text.toUpperCase();
+  const match = LABEL_PATTERNS.find(({ pattern }) => pattern.test(upper));
+  return match ? match.type : 'unknown';
+};
+
+// Stored dates are plain YYYY-MM-DD strings; read them back as local midnight
+export const parseIsoDate = (isoDate: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(isoDate);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  if (!toIsoDate(year, month, day)) return null;
+  return new Date(year, month - 1, day);
+};
+
+export const defaultDateOrderForLocale = (locale: string): DateOrder => {
+  const lower = locale.toLowerCase();
+  if (['en-us', 'en-ph', 'en-ca', 'es-us'].includes(lower)) return 'MDY';
+  if (/^(zh|ja|ko|hu|lt|mn)\b/.test(lower)) return 'YMD';
+  return 'DMY';
+};
+
+interface DateCandidate {
+  isoDate: string | null;
+  format: ExpiryFormat;
+  confidence: number;
+  alternatives: string[];
+}
+
+const readNumericDate = (a: string, b: string, c: string, dateOrder: DateOrder): DateCandidate | null => {
+  // Four-digit first group is always year-first
+  if (a.length === 4) {
+    const isoDate = toIsoDate(parseInt(a, 10), parseInt(b, 10), parseInt(c, 10));
+    return isoDate ? { isoDate, format: 'iso', confidence: 0.95, alternatives: [] } : null;
+  }
+
+  const first = parseInt(a, 10);
+  const second = parseInt(b, 10);
+
+  if (dateOrder === 'YMD' && c.length <= 2) {
+    const isoDate = toIsoDate(expandYear(a), second, parseInt(c, 10));
+    if (isoDate) return { isoDate, format: 'numeric', confidence: 0.6, alternatives: [] };
+  }
+
+  const year = expandYear(c);
+  const dayFirst = toIsoDate(year, second, first);
+  const monthFirst = toIsoDate(year, first, second);
+
+  if (dayFirst && monthFirst && dayFirst !== monthFirst) {
+    const preferMonthFirst = dateOrder === 'MDY';
+    return {
+      isoDate: preferMonthFirst ? monthFirst : dayFirst,
+      format: 'numeric',
+      confidence: 0.55,
+      alternatives: [preferMonthFirst ? dayFirst : monthFirst],
+    };
+  }
+  const isoDate = dayFirst || monthFirst;
+  return isoDate ? { isoDate, format: 'numeric', confidence: c.length === 4 ? 0.9 : 0.85, alternatives: [] } : null;
+};
+
+// Julian pack codes: YYDDD or YDDD (day of year), the single-digit form is taken from the current decade
+const readJulianDate = (code: string, referenceDate: Date): DateCandidate | null => {
+  const dayOfYear = parseInt(code.slice(-3), 10);
+  const yearPart = code.slice(0, -3);
+  let year: number;
+  if (yearPart.length === 2) {
+    year = 2000 + parseInt(yearPart, 10);
+  } else {
+    const refYear = referenceDate.getFullYear();
+    year = refYear - (refYear % 10) + parseInt(yearPart, 10);
+    if (year > refYear + 1) year -= 10;
+  }
+  const daysInYear = daysInMonth(year, 2) === 29 ? 366 : 365;
+  if (dayOfYear < 1 || dayOfYear > daysInYear) return null;
+  const date = new Date(Date.UTC(year, 0, dayOfYear));
+  return {
+    isoDate: toIsoDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()),
+    format: 'julian',
+    confidence: 0.4,
+    alternatives: [],
+  };
+};
+
+const readDate = (text: string, dateOrder: DateOrder, referenceDate: Date): DateCandidate | null => {
+  let match = /\b(\d{4})[-/.\s](\d{1,2})[-/.\s](\d{1,2})\b/.exec(text);
+  if (match) {
+    return readNumericDate(match[1], match[2], match[3], dateOrder);
+  }
+
+  match = new RegExp(`\\b(\\d{1,2})(?:ST|ND|RD|TH)?[\\s/.-]*${MONTH_NAME}[\\s/.,-]*(\\d{4}|\\d{2})\\b`).exec(text);
+  if (match) {
+    const isoDate = toIsoDate(expandYear(match[3]), monthFromName(match[2]), parseInt(match[1], 10));
+    if (isoDate) return { isoDate, format: 'month-name', confidence: 0.9, alternatives: [] };
+  }
+
+  match = new RegExp(`\\b${MONTH_NAME}[\\s/.-]*(\\d{1,2})(?:ST|ND|RD|TH)?,?[\\s/.-]+(\\d{4})\\b`).exec(text);
+  if (match) {
+    const isoDate = toIsoDate(parseInt(match[3], 10), monthFromName(match[1]), parseInt(match[2], 10));
+    if (isoDate) return { isoDate, format: 'month-name', confidence: 0.9, alternatives: [] };
+  }
+
+  // Month and year only: the product is good until the end of that month
+  match = new RegExp(`\\b${MONTH_NAME}[\\s/.,-]*(\\d{4}|\\d{2})\\b`).exec(text);
+  if (match) {
+    const year = expandYear(match[2]);
+    const month = monthFromName(match[1]);
+    return { isoDate: toIsoDate(year, month, daysInMonth(year, month)), format: 'month-year', confidence: 0.8, alternatives: [] };
+  }
+
+  match = /\b(\d{1,2})[-/.\s](\d{1,2})[-/.\s](\d{4}|\d{2})\b/.exec(text);
+  if (match) {
+    return readNumericDate(match[1], match[2], match[3], dateOrder);
+  }
+
+  match = /\b(\d{1,2})[-/.](\d{4}|\d{2})\b/.exec(text);
+  if (match) {
+    const month = parseInt(match[1], 10);
+    const year = expandYear(match[2]);
+    const isoDate = month >= 1 && month <= 12 ? toIsoDate(year, month, daysInMonth(year, month)) : null;
+    if (isoDate) return { isoDate, format: 'month-year', confidence: 0.65, alternatives: [] };
+  }
+
+  // Compact YYYYMMDD
+  match = /\b(20\d{2})(\d{2})(\d{2})\b/.exec(text);
+  if (match) {
+    const isoDate = toIsoDate(parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10));
+    if (isoDate) return { isoDate, format: 'iso', confidence: 0.7, alternatives: [] };
+  }
+
+  match = /\b(\d{4,5})\b/.exec(text);
+  if (match && !/^(19|20)\d{2}$/.test(match[1])) {
+    return readJulianDate(match[1], referenceDate);
+  }
+
+  return null;
+};
+
+export const parseExpiryText = (
+  rawText: string,
+  dateOrder: DateOrder,
+  referenceDate: Date = new Date()
+): ParsedExpiry => {
+  const text = rawText.toUpperCase().replace(/\s+/g, ' ').trim();
+  let labelType = detectLabelType(text);
+  const candidate = text ? readDate(text, dateOrder, referenceDate) : null;
+
+  if (!candidate || !candidate.isoDate) {
+    return { rawText, isoDate: null, labelType, format: 'unrecognized', confidence: 0, alternatives: [] };
+  }
+
+  // Julian codes on their own are almost always packing dates rather than expiry dates
+  if (candidate.format === 'julian' && labelType === 'unknown') {
+    labelType = 'packed-on';
+  }
+
+  return {
+    rawText,
+    isoDate: candidate.isoDate,
+    labelType,
+    format: candidate.format,
+    confidence: candidate.confidence,
+    alternatives: candidate.alternatives,
+  };
+};
+
+// Below this the confirm screen asks the user to check the date
+export const LOW_CONFIDENCE_THRESHOLD = 0.5;
+
+export const needsConfirmation = (parsed: ParsedExpiry): boolean =>
+  parsed.alternatives.length > 0 || parsed.confidence < LOW_CONFIDENCE_THRESHOLD;
+
+export const EXPIRY_LABEL_NAMES: Record<ExpiryLabelType, string> = {
+  'use-by': 'Use by',
+  'best-before': 'Best before',
+  'sell-by': 'Sell by',
+  'packed-on': 'Packed on',
+  unknown: 'Expiry',
+};
@@ -0,0 +1,146 @@
+import { AppSettings, Product } from '../types';
+import { parseIsoDate, toIsoDate, EXPIRY_LABEL_NAMES } from './expiryParser';
+import { daysUntilExpiry } from './expiryStatus';
+
+// Reminders go out in the morning, local time
+export const REMINDER_HOUR = 9;
+
+// How far ahead daily digests are planned; the plan is rebuilt every time the app opens
+const DIGEST_DAYS_AHEAD = 14;
+
+// A notification for the service worker to show once `fireAt` has passed. The tag is unique per reminder
+// and changes when the item's date does, so the worker can tell what it has already shown.
+export interface ScheduledReminder {
+  tag: string;
+  title: string;
+  body: string;
+  fireAt: string; // ISO string for date
+}
+
+type ReminderSettings = Pick<AppSettings, 'expiryReminders' | 'dailyDigest' | 'reminderDaysBefore' | 'expiringSoonDays'>;
+
+const atReminderHour = (day: Date): Date => new Date(day.getFullYear(), day.getMonth(), day.getDate(), REMINDER_HOUR);
+
+const addDays = (day: Date, days: number): Date => new Date(day.getFullYear(), day.getMonth(), day.getDate() + days);
+
+const isoDay = (day: Date): string => toIsoDate(day.getFullYear(), day.getMonth() + 1, day.getDate()) ?? '';
+
+// Packed-on dates say nothing about when food goes off
+const hasExpiryDate = (product: Product): boolean =>
+  !!parseIsoDate(product.expiryDate) && product.expiryLabelType !== 'packed-on';
+
+const describeDays = (days: number): string => {
+  if (days === 0) return 'expires today';
+  return days === 1 ? 'expires tomorrow' : `expires in ${days} days`;
+};
+
+// Per-item reminders for everything not yet expired, plus one digest per day that has something expiring soon.
+// A reminder whose time has already passed (e.g. an item added with a day to go) is still planned, and fires at once.
+export const planReminders = (products: Product[], settings: ReminderSettings, now: Date): ScheduledReminder[] => {
+  const dated = products.filter(hasExpiryDate);
+  const reminders: ScheduledReminder[] = [];
+
+  if (settings.expiryReminders) {
+    dated.forEach(product => {
+      const expiry = parseIsoDate(product.expiryDate)!;
+      const daysLeft = daysUntilExpiry(product.expiryDate, now)!;
+      if (daysLeft < 0) return;
+      const label = EXPIRY_LABEL_NAMES[product.expiryLabelType ?? 'unknown'];
+      // Fewer days than usual are left when the reminder is already overdue
+      const daysLeftWhenShown = Math.min(settings.reminderDaysBefore, daysLeft);
+      reminders.push({
+        tag: `item:${product.id}:${product.expiryDate}:${settings.reminderDaysBefore}`,
+        title: `${product.name || 'An item'} ${describeDays(daysLeftWhenShown)}`,
+        body: `${label}: ${expiry.toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'long' })}`,
+        fireAt: atReminderHour(addDays(expiry, -settings.reminderDaysBefore)).toISOString(),
+      });
+    });
+  }
+
+  if (settings.dailyDigest) {
+    for (let offset = 0; offset < DIGEST_DAYS_AHEAD; offset++) {
+      const day = addDays(now, offset);
+      const due = dated
+        .map(product => ({ product, days: daysUntilExpiry(product.expiryDate, day)! }))
+        .filter(({ days }) => days >= 0 && days <= settings.expiringSoonDays)
+        .sort((a, b) => a.days - b.days);
+      if (due.length === 0) continue;
+      reminders.push({
+        tag: `digest:${isoDay(day)}`,
+        title: `${due.length} item${due.length === 1 ? '' : 's'} expiring soon`,
+        body: due.map(({ product, days }) => `${product.name || 'Unnamed item'} (${days === 0 ? 'today' : `${days}d`})`).join(', '),
+        fireAt: atReminderHour(day).toISOString(),
+      });
+    }
+  }
+
+  return reminders;
+};
+
+// iCalendar text values escape backslashes, separators and newlines
+const escapeIcsText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 bytes are folded onto continuation lines starting with a space,
+// without splitting a multi-byte character
+const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (bytes + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  return [...parts, current].join('\r\n ');
+};
+
+const icsDate = (day: Date): string => isoDay(day).replace(/-/g, '');
+
+const icsTimestamp = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// All-day events start at midnight, so an alarm at REMINDER_HOUR n days earlier is (24n - hour) hours before
+const icsAlarmTrigger = (daysBefore: number): string => {
+  const hours = daysBefore * 24 - REMINDER_HOUR;
+  return hours >= 0 ? `-PT${hours}H` : `PT${-hours}H`;
+};
+
+// One all-day event per dated item, each with an alarm `daysBefore` days ahead. UIDs come from the product id,
+// so importing a newer export updates events rather than duplicating them.
+export const toExpiryCalendar = (products: Product[], daysBefore: number, now: Date = new Date()): string => {
+  const events = products.filter(hasExpiryDate).flatMap(product => {
+    const expiry = parseIsoDate(product.expiryDate)!;
+    const label = EXPIRY_LABEL_NAMES[product.expiryLabelType ?? 'unknown'];
+    const summary = `${product.name || 'Unnamed item'}: ${label.toLowerCase()}`;
+    return [
+      'BEGIN:VEVENT',
+      `UID:${product.id}@pantry-pal`,
+      `DTSTAMP:${icsTimestamp(now)}`,
+      `DTSTART;VALUE=DATE:${icsDate(expiry)}`,
+      `DTEND;VALUE=DATE:${icsDate(addDays(expiry, 1))}`,
+      `SUMMARY:${escapeIcsText(summary)}`,
+      'TRANSP:TRANSPARENT',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeIcsText(summary)}`,
+      `TRIGGER:${icsAlarmTrigger(daysBefore)}`,
+      'END:VALARM',
+      'END:VEVENT',
+    ];
+  });
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Pantry Pal Scanner//Expiry dates//EN',
+    'CALSCALE:GREGORIAN',
+    'X-WR-CALNAME:Pantry expiry dates',
+    ...events,
+    'END:VCALENDAR',
+  ].map(foldIcsLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { ExpiryStatus, Product } from '../types';
+import { countByExpiryStatus, daysUntilExpiry, getExpiryStatus, sortByExpiry } from './expiryStatus';
+
+const TODAY = new Date(2025, 5, 15, 18, 30); // Late in the day, so whole-day rounding is exercised
+
+const product = (id: string, expiryDate: string, scannedAt: string = '2025-06-01T10:00:00.000Z'): Product =>
+  ({ id, name: id, expiryDate, scannedAt, expiryImageId: `${id}:expiry` });
+
+describe('daysUntilExpiry', () => {
+  it('counts whole calendar days from today', () => {
+    expect(daysUntilExpiry('2025-06-15', TODAY)).toBe(0);
+    expect(daysUntilExpiry('2025-06-16', TODAY)).toBe(1);
+    expect(daysUntilExpiry('2025-06-10', TODAY)).toBe(-5);
+  });
+
+  it('returns null for dates it cannot read', () => {
+    expect(daysUntilExpiry('', TODAY)).toBeNull();
+    expect(daysUntilExpiry('BB 12/03', TODAY)).toBeNull();
+  });
+});
+
+describe('getExpiryStatus', () => {
+  it('buckets by days left', () => {
+    expect(getExpiryStatus('2025-06-14', TODAY, 3)).toBe(ExpiryStatus.EXPIRED);
+    expect(getExpiryStatus('2025-06-15', TODAY, 3)).toBe(ExpiryStatus.EXPIRES_TODAY);
+    expect(getExpiryStatus('2025-06-18', TODAY, 3)).toBe(ExpiryStatus.EXPIRING_SOON);
+    expect(getExpiryStatus('2025-06-19', TODAY, 3)).toBe(ExpiryStatus.FRESH);
+    expect(getExpiryStatus('', TODAY, 3)).toBe(ExpiryStatus.UNKNOWN);
+  });
+});
+
+describe('countByExpiryStatus', () => {
+  it('counts every status, including those with no products', () => {
+    const counts = countByExpiryStatus([product('a', '2025-06-01'), product('b', '2025-06-01'), product('c', '')], TODAY, 3);
+    expect(counts).toEqual({
+      [ExpiryStatus.EXPIRED]: 2,
+      [ExpiryStatus.EXPIRES_TODAY]: 0,
+      [ExpiryStatus.EXPIRING_SOON]: 0,
+      [ExpiryStatus.FRESH]: 0,
+      [ExpiryStatus.UNKNOWN]: 1,
+    });
+  });
+});
+
+describe('sortByExpiry', () => {
+  it('puts the soonest first, unknown dates last and breaks ties by newest scan', () => {
+    const sorted = sortByExpiry([
+      product('unknown', ''),
+      product('later', '2025-07-01'),
+      product('sooner-old', '2025-06-20', '2025-06-01T10:00:00.000Z'),
+      product('sooner-new', '2025-06-20', '2025-06-02T10:00:00.000Z'),
+    ]);
+    expect(sorted.map(p => p.id)).toEqual(['sooner-new', 'sooner-old', 'later', 'unknown']);
+  });
+});
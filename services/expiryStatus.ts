@@ -0,0 +1,60 @@
+import { ExpiryStatus, Product } from '../types';
+import { parseIsoDate } from './expiryParser';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Whole calendar days from `today` until the expiry date; negative once expired, null when the date is unknown
+export const daysUntilExpiry = (expiryDate: string, today: Date): number | null => {
+  const expiry = parseIsoDate(expiryDate);
+  if (!expiry) return null;
+  return Math.round((expiry.getTime() - startOfDay(today).getTime()) / MS_PER_DAY);
+};
+
+export const getExpiryStatus = (expiryDate: string, today: Date, expiringSoonDays: number): ExpiryStatus => {
+  const days = daysUntilExpiry(expiryDate, today);
+  if (days === null) return ExpiryStatus.UNKNOWN;
+  if (days < 0) return ExpiryStatus.EXPIRED;
+  if (days === 0) return ExpiryStatus.EXPIRES_TODAY;
+  if (days <= expiringSoonDays) return ExpiryStatus.EXPIRING_SOON;
+  return ExpiryStatus.FRESH;
+};
+
+export const countByExpiryStatus = (
+  products: Product[],
+  today: Date,
+  expiringSoonDays: number
+): Record<ExpiryStatus, number> => {
+  const counts: Record<ExpiryStatus, number> = {
+    [ExpiryStatus.EXPIRED]: 0,
+    [ExpiryStatus.EXPIRES_TODAY]: 0,
+    [ExpiryStatus.EXPIRING_SOON]: 0,
+    [ExpiryStatus.FRESH]: 0,
+    [ExpiryStatus.UNKNOWN]: 0,
+  };
+  products.forEach(product => {
+    counts[getExpiryStatus(product.expiryDate, today, expiringSoonDays)] += 1;
+  });
+  return counts;
+};
+
+// Soonest expiry first, unknown dates last, most recently scanned first on ties
+export const compareByExpiry = (a: Product, b: Product): number => {
+  const aDate = parseIsoDate(a.expiryDate);
+  const bDate = parseIsoDate(b.expiryDate);
+  if (aDate && bDate && aDate.getTime() !== bDate.getTime()) return aDate.getTime() - bDate.getTime();
+  if (aDate && !bDate) return -1;
+  if (!aDate && bDate) return 1;
+  return b.scannedAt.localeCompare(a.scannedAt);
+};
+
+export const sortByExpiry = (products: Product[]): Product[] => [...products].sort(compareByExpiry);
+
+export const EXPIRY_STATUS_LABELS: Record<ExpiryStatus, string> = {
+  [ExpiryStatus.EXPIRED]: 'Expired',
+  [ExpiryStatus.EXPIRES_TODAY]: 'Expires today',
+  [ExpiryStatus.EXPIRING_SOON]: 'Expiring soon',
+  [ExpiryStatus.FRESH]: 'Fresh',
+  [ExpiryStatus.UNKNOWN]: 'Unknown date',
+};
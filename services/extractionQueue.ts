@@ -0,0 +1,158 @@
+import { DateOrder, ParsedExpiry, PendingExtraction, Product, StockDetails } from '../types';
+import { AiProvider } from './aiProvider';
+import { isAiError } from './aiErrors';
+import { PantryRepository, imageIdFor } from './pantryRepository';
+import { needsConfirmation, parseExpiryText } from './expiryParser';
+import { blobToDataUrl } from './imageUtils';
+import { createScannedProduct } from './productFactory';
+import { getStock } from './pantryInventory';
+
+export interface QueuedScanInput {
+  id: string;
+  reads: PendingExtraction['reads'];
+  name: string; // Already known for 'expiry' reads (e.g. from a barcode), otherwise empty
+  stock: StockDetails;
+  hasNameImage: boolean;
+  hasThumbnail: boolean;
+  barcode?: string;
+}
+
+export interface QueueRunResult {
+  read: number;
+  needsReview: number; // Read, but left for the user to check before it counts as done
+  failed: number;
+  stoppedEarly: boolean; // The AI was unreachable, so the rest were left for the next run
+}
+
+export const isAwaitingExtraction = (product: Product): boolean => product.pendingExtraction?.status === 'pending';
+
+// Builds the placeholder saved for a scan that couldn't be read yet; the photos are stored under the usual image keys
+export const createQueuedProduct = (input: QueuedScanInput): Product => {
+  const queuedAt = new Date().toISOString();
+  return {
+    id: input.id,
+    name: input.name.trim(),
+    expiryDate: '',
+    expiryLabelType: 'unknown',
+    ...input.stock,
+    nameImageId: input.hasNameImage ? imageIdFor(input.id, 'name') : undefined,
+    expiryImageId: imageIdFor(input.id, 'expiry'),
+    thumbnailImageId: input.hasThumbnail ? imageIdFor(input.id, 'thumbnail') : undefined,
+    barcode: input.barcode,
+    scannedAt: queuedAt,
+    pendingExtraction: { reads: input.reads, status: 'pending', queuedAt },
+  };
+};
+
+const loadImageData = async (repository: PantryRepository, imageId: string | undefined): Promise<string> => {
+  const blob = imageId ? await repository.getImage(imageId) : undefined;
+  if (!blob) throw new Error("The photo for this scan is missing.");
+  return blobToDataUrl(blob);
+};
+
+const readProduct = async (
+  product: Product,
+  repository: PantryRepository,
+  aiProvider: AiProvider,
+  dateOrder: DateOrder,
+  signal?: AbortSignal
+): Promise<{ name: string; parsedExpiry: ParsedExpiry }> => {
+  const reads = product.pendingExtraction!.reads;
+  const expiryImage = await loadImageData(repository, product.expiryImageId);
+  if (reads === 'details') {
+    const details = await aiProvider.extractProductDetails(expiryImage, { signal });
+    const parsed = parseExpiryText(details.expiryText, dateOrder);
+    return { name: details.name, parsedExpiry: parsed.labelType === 'unknown' ? { ...parsed, labelType: details.labelType } : parsed };
+  }
+  const name = reads === 'name-and-expiry'
+    ? await aiProvider.extractProductName(await loadImageData(repository, product.nameImageId), { signal })
+    : product.name;
+  const expiryText = await aiProvider.extractExpiryText(expiryImage, { signal });
+  return { name, parsedExpiry: parseExpiryText(expiryText, dateOrder) };
+};
+
+// Why a read can't go into the pantry as it is: the same cases the confirm screen asks about when scanning live
+const reviewReason = (name: string, parsedExpiry: ParsedExpiry): string | undefined => {
+  if (!name.trim()) return "The product name couldn't be read.";
+  if (!parsedExpiry.isoDate) return `No expiry date could be read${parsedExpiry.rawText ? ` from "${parsedExpiry.rawText}"` : ''}.`;
+  if (parsedExpiry.alternatives.length > 0) {
+    return `"${parsedExpiry.rawText}" could mean ${[parsedExpiry.isoDate, ...parsedExpiry.alternatives].join(' or ')}.`;
+  }
+  if (needsConfirmation(parsedExpiry)) return `The date "${parsedExpiry.rawText}" was hard to read.`;
+  return undefined;
+};
+
+// What a successful read changes on the stored product. Everything else is taken from the record as it is now,
+// so edits made while the AI was busy (quantity, location, ...) survive. A doubtful read stays flagged for review.
+const withExtractedDetails = (current: Product, name: string, parsedExpiry: ParsedExpiry): Product => {
+  const read = createScannedProduct({
+    id: current.id,
+    name: current.name || name,
+    expiryDate: parsedExpiry.isoDate ?? '',
+    expiryLabelType: parsedExpiry.labelType,
+    stock: getStock(current),
+    aiName: name,
+    parsedExpiry,
+    isExpiryConfirmed: false,
+    scannedAt: current.scannedAt,
+  });
+  const reason = reviewReason(read.name, parsedExpiry);
+  return {
+    ...current,
+    pendingExtraction: reason ? { ...current.pendingExtraction!, status: 'needs-review', error: reason } : undefined,
+    name: read.name,
+    expiryDate: read.expiryDate,
+    expiryLabelType: read.expiryLabelType,
+    expiryRawText: read.expiryRawText,
+    expiryConfidence: read.expiryConfidence,
+    aiExtraction: read.aiExtraction,
+    editHistory: read.editHistory,
+  };
+};
+
+// Reads queued scans one at a time, oldest first. A scan the AI can't make sense of is marked failed so the
+// user can fill it in; connection, quota and key problems stop the run and leave the rest queued for next time.
+export const processPendingExtractions = async (
+  repository: PantryRepository,
+  aiProvider: AiProvider,
+  dateOrder: DateOrder,
+  signal?: AbortSignal
+): Promise<QueueRunResult> => {
+  const queued = (await repository.list())
+    .filter(isAwaitingExtraction)
+    .sort((a, b) => a.pendingExtraction!.queuedAt.localeCompare(b.pendingExtraction!.queuedAt));
+  const result: QueueRunResult = { read: 0, needsReview: 0, failed: 0, stoppedEarly: false };
+
+  for (const product of queued) {
+    if (signal?.aborted) {
+      result.stoppedEarly = true;
+      break;
+    }
+    try {
+      const { name, parsedExpiry } = await readProduct(product, repository, aiProvider, dateOrder, signal);
+      // The read can take a while; the item may have been deleted or filled in by hand in the meantime
+      const current = await repository.get(product.id);
+      if (!current || !isAwaitingExtraction(current)) continue;
+      const updated = withExtractedDetails(current, name, parsedExpiry);
+      await repository.update(updated);
+      if (updated.pendingExtraction) {
+        result.needsReview += 1;
+      } else {
+        result.read += 1;
+      }
+    } catch (err) {
+      if (isAiError(err) && (err.retryable || err.kind === 'auth' || err.kind === 'cancelled')) {
+        console.warn("Stopped reading queued scans", err);
+        result.stoppedEarly = true;
+        break;
+      }
+      console.error(`Failed to read queued scan ${product.id}`, err);
+      const message = err instanceof Error ? err.message : "The photos couldn't be read.";
+      const current = await repository.get(product.id);
+      if (!current || !isAwaitingExtraction(current)) continue;
+      await repository.update({ ...current, pendingExtraction: { ...current.pendingExtraction!, status: 'failed', error: message } });
+      result.failed += 1;
+    }
+  }
+  return result;
+};
@@ -0,0 +1,25 @@
+// Saves text as a file through a temporary link, which works without any server round trip
+export const downloadTextFile = (fileName: string, text: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// The system share sheet where there is one (mostly phones), otherwise a download
+export const shareOrDownloadText = async (title: string, fileName: string, text: string, mimeType: string): Promise<void> => {
+  if (typeof navigator !== 'undefined' && navigator.share) {
+    try {
+      await navigator.share({ title, text });
+      return;
+    } catch (e) {
+      if (e instanceof DOMException && e.name === 'AbortError') return; // Dismissed by the user
+      // Sharing can be refused (e.g. no user gesture); fall back to a download
+    }
+  }
+  downloadTextFile(fileName, text, mimeType);
+};
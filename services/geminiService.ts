@@ -1,16 +1,19 @@
 
-import { GoogleGenAI, GenerateContentResponse, Part, Type } from "@google/genai";
+import { ApiError, FinishReason, GenerateContentParameters, GenerateContentResponse, GoogleGenAI, Part, Type } from "@google/genai";
+import { PantryIngredient, ExtractedProductDetails, RecipePreferences } from "../types";
+import { formatQuantity } from "./pantryInventory";
+import { AiCallOptions, AiProvider, RecipeSuggestions } from "./aiProvider";
+import { AiAuthError, AiBadRequestError, AiError, AiMalformedResponseError, AiNetworkError, AiQuotaError, AiSafetyBlockedError, AiUnknownError, isAiError } from "./aiErrors";
+import { RetryOptions, withRetry } from "./retry";
+import { LABEL_TYPES, productDetailsSchema, recipeListSchema, validateAiOutput } from "./aiSchemas";
+import { ALLERGENS, DIETS } from "./recipePreferences";
 
-const API_KEY = process.env.API_KEY;
-
-if (!API_KEY) {
-  console.error("API_KEY is not set. Please ensure the API_KEY environment variable is configured.");
+interface GeminiProviderOptions {
+  apiKey?: string;
+  model: string;
+  retry?: Omit<RetryOptions, 'signal'>;
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY || "MISSING_API_KEY" });
-
-const GEMINI_MODEL = 'gemini-2.5-flash';
-
 const getBase64Data = (dataUrl: string): string => {
   if(!dataUrl || !dataUrl.includes(',')) return '';
   return dataUrl.split(',')[1];
@@ -21,114 +24,279 @@ const getMimeType = (dataUrl:string): string => {
   return dataUrl.substring(dataUrl.indexOf(':') + 1, dataUrl.indexOf(';'));
 }
 
-
-export const extractTextFromImage = async (imageBase64DataUrl: string, promptText: string): Promise<string> => {
-  if (!API_KEY) {
-    throw new Error("Gemini API Key is not configured.");
-  }
+const buildImagePart = (imageBase64DataUrl: string): Part => {
   if (!imageBase64DataUrl) {
-    throw new Error("Image data is missing.");
+    throw new AiBadRequestError("Image data is missing.");
   }
 
   const base64Data = getBase64Data(imageBase64DataUrl);
   const mimeType = getMimeType(imageBase64DataUrl);
 
   if (!base64Data) {
-     throw new Error("Invalid image data URL format.");
+     throw new AiBadRequestError("Invalid image data URL format.");
   }
 
-  const imagePart: Part = {
+  return {
     inlineData: {
       mimeType: mimeType,
       data: base64Data,
     },
   };
+}
 
-  const textPart: Part = {
-    text: promptText,
-  };
+const SAFETY_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+];
 
-  try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: GEMINI_MODEL,
-      contents: [{ parts: [imagePart, textPart] }],
-    });
-    return response.text.trim();
-  } catch (error) {
-    console.error("Error calling Gemini API:", error);
-    if (error instanceof Error) {
-        // Check for specific error messages related to API key if possible
-        if (error.message.includes("API key not valid")) {
-             throw new Error("Invalid Gemini API Key. Please check your configuration.");
-        }
-         if (error.message.includes("quota")) {
-            throw new Error("Gemini API quota exceeded. Please check your usage or billing.");
-        }
+// 429 bodies carry the suggested wait as e.g. "retryDelay": "31s"
+const parseRetryDelayMs = (message: string): number | undefined => {
+  const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+const toAiError = (error: unknown): AiError => {
+  if (isAiError(error)) return error;
+  if (error instanceof ApiError) {
+    if (error.status === 401 || error.status === 403 || error.message.includes("API key not valid")) {
+      return new AiAuthError("Invalid Gemini API Key. Please check your configuration.", { cause: error });
+    }
+    if (error.status === 429) {
+      return new AiQuotaError("Gemini API rate limit or quota exceeded.", parseRetryDelayMs(error.message), { cause: error });
     }
-    throw new Error("Failed to extract text using Gemini API. Check console for details.");
+    if (error.status >= 500) {
+      return new AiNetworkError("The Gemini API is temporarily unavailable.", { cause: error });
+    }
+    if (error.status >= 400) {
+      return new AiBadRequestError(`Gemini rejected the request (${error.status}).`, { cause: error });
+    }
+    return new AiUnknownError(undefined, { cause: error });
   }
+  // fetch() rejects with a TypeError when the request never reaches the server
+  if (error instanceof TypeError) {
+    return new AiNetworkError(undefined, { cause: error });
+  }
+  return new AiUnknownError(undefined, { cause: error });
 };
 
-export const suggestRecipesFromIngredients = async (ingredients: string[]): Promise<any> => {
-  if (!API_KEY) {
-    throw new Error("Gemini API Key is not configured.");
+// The text of a response, or an AiSafetyBlockedError when the prompt or answer was filtered
+const responseText = (response: GenerateContentResponse): string => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || SAFETY_FINISH_REASONS.includes(finishReason)) {
+    throw new AiSafetyBlockedError(`Gemini declined to answer (${blockReason ?? finishReason}).`);
   }
-  if (!ingredients || ingredients.length === 0) {
-    throw new Error("No ingredients provided to suggest recipes.");
+  return response.text?.trim() ?? '';
+};
+
+const describeExpiry = ({ daysUntilExpiry, expiryLabelType }: PantryIngredient): string => {
+  if (daysUntilExpiry === null) return "no known expiry date";
+  const label = expiryLabelType === 'use-by' ? 'use-by date' : 'date';
+  if (daysUntilExpiry < 0) return `${label} passed ${-daysUntilExpiry} day(s) ago`;
+  if (daysUntilExpiry === 0) return "expires today";
+  return `expires in ${daysUntilExpiry} day(s)`;
+};
+
+// The household's constraints as prompt sentences; hard rules first, then soft preferences
+const describePreferences = (preferences: RecipePreferences): string => {
+  const dietLabels = preferences.diets.map(diet => DIETS.find(option => option.value === diet)?.label.toLowerCase() ?? diet);
+  return [
+    dietLabels.length > 0 ? `Every recipe must be suitable for a ${dietLabels.join(' and ')} diet.` : '',
+    preferences.excludedAllergens.length > 0
+      ? `Recipes must not contain any of these allergens, not even as a trace or garnish: ${preferences.excludedAllergens.join(', ')}.`
+      : '',
+    preferences.maxPrepMinutes ? `Each recipe must take no more than ${preferences.maxPrepMinutes} minutes in total.` : '',
+    `Scale every recipe to serve ${preferences.servings}.`,
+    preferences.cuisines.length > 0 ? `Where possible, favour these cuisines: ${preferences.cuisines.join(', ')}.` : '',
+  ].filter(Boolean).join(' ');
+};
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new AiMalformedResponseError(undefined, { cause: error });
+  }
+};
+
+export const createGeminiProvider = ({ apiKey, model, retry }: GeminiProviderOptions): AiProvider => {
+  if (!apiKey) {
+    console.error("API_KEY is not set. Please ensure the API_KEY environment variable is configured.");
   }
 
-  const prompt = `Based on the following ingredients, suggest a few simple recipes. Ingredients: ${ingredients.join(', ')}.`;
+  const ai = new GoogleGenAI({ apiKey: apiKey || "MISSING_API_KEY" });
+
+  // Sends one request with retries, a per-attempt timeout and the caller's cancellation signal
+  const generateText = (request: Omit<GenerateContentParameters, 'model'>, options?: AiCallOptions): Promise<string> => {
+    if (!apiKey) {
+      return Promise.reject(new AiAuthError("Gemini API Key is not configured."));
+    }
+    return withRetry(async (abortSignal) => {
+      try {
+        const response = await ai.models.generateContent({
+          ...request,
+          model,
+          config: { ...request.config, abortSignal },
+        });
+        return responseText(response);
+      } catch (error) {
+        const aiError = toAiError(error);
+        // An aborted attempt has already been reported as a timeout or cancellation by withRetry
+        if (!abortSignal.aborted && aiError.kind !== 'cancelled') {
+          console.error("Error calling Gemini API:", error);
+        }
+        throw aiError;
+      }
+    }, { ...retry, signal: options?.signal });
+  };
+
+  // Async so that a bad image rejects the returned promise instead of throwing at the call site
+  const extractTextFromImage = async (imageBase64DataUrl: string, promptText: string, options?: AiCallOptions): Promise<string> => {
+    const imagePart = buildImagePart(imageBase64DataUrl);
+
+    const textPart: Part = {
+      text: promptText,
+    };
+
+    return generateText({ contents: [{ parts: [imagePart, textPart] }] }, options);
+  };
+
+  const extractProductDetails = async (imageBase64DataUrl: string, options?: AiCallOptions): Promise<ExtractedProductDetails> => {
+    const imagePart = buildImagePart(imageBase64DataUrl);
+
+    const textPart: Part = {
+      text: "This photo shows a grocery product. Identify the primary product name, and transcribe its expiry, best before, sell by or packed on date exactly as printed, including its label (e.g. 'BB 12/03/25'). Use an empty string for anything that is not visible.",
+    };
 
-  const schema = {
-    type: Type.ARRAY,
-    items: {
+    const schema = {
       type: Type.OBJECT,
       properties: {
-        recipeName: {
+        name: {
           type: Type.STRING,
-          description: "The name of the recipe."
+          description: "The primary product name, or an empty string if it cannot be read."
         },
-        ingredients: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.STRING
-          },
-          description: "A list of ingredients required for the recipe. Include quantities."
+        nameConfidence: {
+          type: Type.NUMBER,
+          description: "How certain you are of the name, from 0 to 1."
+        },
+        expiryText: {
+          type: Type.STRING,
+          description: "The date text exactly as printed including its label, or an empty string if no date is visible."
         },
-        instructions: {
+        labelType: {
           type: Type.STRING,
-          description: "Step-by-step instructions to prepare the recipe."
+          enum: LABEL_TYPES,
+          description: "Which kind of date the label shows."
         }
       },
-      required: ["recipeName", "ingredients", "instructions"]
-    }
+      required: ["name", "nameConfidence", "expiryText", "labelType"]
+    };
+
+    const jsonText = await generateText({
+      contents: [{ parts: [imagePart, textPart] }],
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: schema,
+      },
+    }, options);
+
+    return validateAiOutput(parseJson(jsonText || '{}'), productDetailsSchema, 'product details').value;
   };
 
-  try {
-    const response = await ai.models.generateContent({
-      model: GEMINI_MODEL,
+  const suggestRecipes = async (ingredients: PantryIngredient[], preferences: RecipePreferences, options?: AiCallOptions): Promise<RecipeSuggestions> => {
+    if (!ingredients || ingredients.length === 0) {
+      throw new AiBadRequestError("No ingredients provided to suggest recipes.");
+    }
+
+    const ingredientList = ingredients.map(i => `- ${i.name} (${formatQuantity(i)}): ${describeExpiry(i)}`).join('\n');
+    const prompt = `Suggest a few simple recipes using the pantry items below, listed soonest-expiring first. Prioritise the items that expire soonest so as little food as possible is wasted, and never use an item whose use-by date has passed. Recipes must need no more than the amounts available.
+
+${describePreferences(preferences)}
+
+For each recipe, list the pantry items it uses (copy the names exactly as written below) and any ingredients that are not in the pantry.
+
+Pantry items:
+${ingredientList}`;
+
+    const schema = {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          recipeName: {
+            type: Type.STRING,
+            description: "The name of the recipe."
+          },
+          ingredients: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.STRING
+            },
+            description: "A list of ingredients required for the recipe. Include quantities."
+          },
+          instructions: {
+            type: Type.STRING,
+            description: "Step-by-step instructions to prepare the recipe."
+          },
+          usesPantryItems: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.STRING
+            },
+            description: "Names of the pantry items this recipe uses, exactly as given in the pantry list."
+          },
+          missingIngredients: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.STRING
+            },
+            description: "Ingredients the recipe needs that are not in the pantry list."
+          },
+          prepTimeMinutes: {
+            type: Type.NUMBER,
+            description: "Total preparation and cooking time in minutes."
+          },
+          servings: {
+            type: Type.NUMBER,
+            description: "How many people the recipe serves."
+          },
+          allergens: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.STRING,
+              enum: ALLERGENS
+            },
+            description: "Every allergen the recipe contains."
+          }
+        },
+        required: ["recipeName", "ingredients", "instructions", "usesPantryItems", "missingIngredients", "prepTimeMinutes", "servings", "allergens"]
+      }
+    };
+
+    const jsonText = await generateText({
       contents: prompt,
       config: {
         responseMimeType: "application/json",
         responseSchema: schema,
       },
-    });
+    }, options);
 
-    const jsonText = response.text.trim();
     if (!jsonText) {
-        return [];
-    }
-    return JSON.parse(jsonText);
-  } catch (error) {
-    console.error("Error calling Gemini API for recipes:", error);
-     if (error instanceof Error) {
-        if (error.message.includes("API key not valid")) {
-             throw new Error("Invalid Gemini API Key. Please check your configuration.");
-        }
-         if (error.message.includes("quota")) {
-            throw new Error("Gemini API quota exceeded. Please check your usage or billing.");
-        }
+      return { recipes: [], warnings: [] };
     }
-    throw new Error("Failed to suggest recipes using Gemini API. Check console for details.");
-  }
+    const { value, warnings } = validateAiOutput(parseJson(jsonText), recipeListSchema, 'recipes');
+    return { recipes: value, warnings };
+  };
+
+  return {
+    extractProductName: (imageBase64DataUrl, options) =>
+      extractTextFromImage(imageBase64DataUrl, "Identify the primary product name from this image. Provide only the name.", options),
+    extractExpiryText: (imageBase64DataUrl, options) =>
+      extractTextFromImage(imageBase64DataUrl, "Transcribe the expiry, best before, sell by or packed on date from this image exactly as printed, including its label (e.g. 'BB 12/03/25'). Provide only that text.", options),
+    extractProductDetails,
+    suggestRecipes,
+  };
 };
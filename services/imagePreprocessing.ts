@@ -0,0 +1,125 @@
+import { AppSettings } from '../types';
+
+export type ImageProcessingSettings = Pick<
+  AppSettings,
+  'cropToFrame' | 'enhanceContrast' | 'ocrImageSize' | 'ocrImageQuality' | 'thumbnailSize' | 'thumbnailQuality'
+>;
+
+// Both outputs of one capture, as JPEG data URLs
+export interface ProcessedImage {
+  ocrImage: string; // Sent to the AI and kept as the product's photo
+  thumbnail: string; // Shown on the pantry cards
+}
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// The framing guide drawn over the camera preview, as fractions of the visible preview
+export const FRAME_GUIDE: CropRect = { x: 0.08, y: 0.2, width: 0.84, height: 0.6 };
+
+// Fraction of the darkest and brightest pixels ignored when stretching contrast, so glare and shadow don't set the range
+const CONTRAST_CLIP = 0.01;
+// Ranges narrower than this are mostly noise (e.g. a blank label); stretching them would only amplify it
+const MIN_CONTRAST_RANGE = 32;
+
+// Maps a rectangle on the preview back to source pixels. The preview uses object-cover, so the source is scaled
+// to fill the view and centred, with whatever overflows cut off.
+export const previewRectToSource = (
+  rect: CropRect,
+  source: { width: number; height: number },
+  view: { width: number; height: number }
+): CropRect => {
+  const scale = Math.max(view.width / source.width, view.height / source.height);
+  const offsetX = (view.width - source.width * scale) / 2;
+  const offsetY = (view.height - source.height * scale) / 2;
+  const left = Math.max(0, (rect.x * view.width - offsetX) / scale);
+  const top = Math.max(0, (rect.y * view.height - offsetY) / scale);
+  const right = Math.min(source.width, ((rect.x + rect.width) * view.width - offsetX) / scale);
+  const bottom = Math.min(source.height, ((rect.y + rect.height) * view.height - offsetY) / scale);
+  return { x: Math.round(left), y: Math.round(top), width: Math.round(right - left), height: Math.round(bottom - top) };
+};
+
+// Scales down (never up) so the longest side is at most maxSize
+export const fitWithin = (width: number, height: number, maxSize: number): { width: number; height: number } => {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+// Stretches brightness so the clipped darkest pixels become black and the brightest white, in place.
+// Every channel gets the same curve, so colours keep their hue.
+export const stretchContrast = (pixels: Uint8ClampedArray): void => {
+  const histogram = new Array<number>(256).fill(0);
+  const pixelCount = pixels.length / 4;
+  for (let i = 0; i < pixels.length; i += 4) {
+    histogram[Math.round(0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2])]++;
+  }
+  const clipCount = pixelCount * CONTRAST_CLIP;
+  let low = 0;
+  for (let seen = histogram[0]; seen <= clipCount && low < 255; seen += histogram[++low]);
+  let high = 255;
+  for (let seen = histogram[255]; seen <= clipCount && high > 0; seen += histogram[--high]);
+  if (high - low < MIN_CONTRAST_RANGE) return;
+
+  const scale = 255 / (high - low);
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels[i] = (pixels[i] - low) * scale;
+    pixels[i + 1] = (pixels[i + 1] - low) * scale;
+    pixels[i + 2] = (pixels[i + 2] - low) * scale;
+  }
+};
+
+const drawScaled = (source: CanvasImageSource, crop: CropRect, maxSize: number): { canvas: HTMLCanvasElement; context: CanvasRenderingContext2D } => {
+  const size = fitWithin(crop.width, crop.height, maxSize);
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("Could not process the photo.");
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, size.width, size.height);
+  return { canvas, context };
+};
+
+// Turns a camera frame into the two images the app keeps. `crop` is in source pixels; null keeps the whole frame.
+export const preprocessImage = (
+  source: CanvasImageSource,
+  sourceSize: { width: number; height: number },
+  crop: CropRect | null,
+  settings: ImageProcessingSettings
+): ProcessedImage => {
+  const region = crop && crop.width > 0 && crop.height > 0 ? crop : { x: 0, y: 0, ...sourceSize };
+
+  const ocr = drawScaled(source, region, settings.ocrImageSize);
+  if (settings.enhanceContrast) {
+    const imageData = ocr.context.getImageData(0, 0, ocr.canvas.width, ocr.canvas.height);
+    stretchContrast(imageData.data);
+    ocr.context.putImageData(imageData, 0, 0);
+  }
+
+  // The thumbnail comes from the untouched frame so it looks like the product rather than a scan
+  const thumbnail = drawScaled(source, region, settings.thumbnailSize);
+  return {
+    ocrImage: ocr.canvas.toDataURL('image/jpeg', settings.ocrImageQuality),
+    thumbnail: thumbnail.canvas.toDataURL('image/jpeg', settings.thumbnailQuality),
+  };
+};
+
+// For photos chosen from disk or dropped onto the page. There is no framing guide, so the whole photo is kept.
+export const preprocessFile = async (file: File, settings: ImageProcessingSettings): Promise<ProcessedImage> => {
+  if (!file.type.startsWith('image/')) throw new Error(`${file.name} is not an image.`);
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch (e) {
+    throw new Error(`${file.name} could not be opened as an image.`);
+  }
+  try {
+    return preprocessImage(bitmap, { width: bitmap.width, height: bitmap.height }, null, settings);
+  } finally {
+    bitmap.close();
+  }
+};
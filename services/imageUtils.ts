@@ -0,0 +1,18 @@
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, base64Data] = dataUrl.split(',');
+  const mimeMatch = /data:([^;]+);base64/.exec(header);
+  const binary = atob(base64Data || '');
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeMatch ? mimeMatch[1] : 'image/jpeg' });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error("Failed to read image data."));
+    reader.readAsDataURL(blob);
+  });
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Product } from '../types';
+import { createInMemoryPantryRepository } from './inMemoryPantryRepository';
+import { ProductNotFoundError, imageIdFor } from './pantryRepository';
+
+const product = (id: string, overrides: Partial<Product> = {}): Product => ({
+  id,
+  name: id,
+  expiryDate: '2025-06-20',
+  nameImageId: imageIdFor(id, 'name'),
+  expiryImageId: imageIdFor(id, 'expiry'),
+  scannedAt: '2025-06-01T10:00:00.000Z',
+  ...overrides,
+});
+
+const photo = (text: string) => new Blob([text], { type: 'image/jpeg' });
+
+describe('createInMemoryPantryRepository', () => {
+  it('lists the newest scans first and reads products back by id', async () => {
+    const repository = createInMemoryPantryRepository([
+      product('old', { scannedAt: '2025-01-01T10:00:00.000Z' }),
+      product('new', { scannedAt: '2025-06-01T10:00:00.000Z' }),
+    ]);
+    expect((await repository.list()).map(p => p.id)).toEqual(['new', 'old']);
+    expect(await repository.get('old')).toMatchObject({ id: 'old' });
+    expect(await repository.get('missing')).toBeUndefined();
+  });
+
+  it('refuses to add a duplicate or update a missing product', async () => {
+    const repository = createInMemoryPantryRepository([product('a')]);
+    await expect(repository.add(product('a'))).rejects.toThrow('already exists');
+    await expect(repository.update(product('b'))).rejects.toBeInstanceOf(ProductNotFoundError);
+  });
+
+  it('stores photos with the product and drops them with it', async () => {
+    const repository = createInMemoryPantryRepository();
+    await repository.add(product('a'), { nameImage: photo('name'), expiryImage: photo('label') });
+    expect(await repository.getImage(imageIdFor('a', 'expiry'))).toBeDefined();
+
+    await repository.delete('a');
+    expect(await repository.list()).toEqual([]);
+    expect(await repository.getImage(imageIdFor('a', 'name'))).toBeUndefined();
+    expect(await repository.getImage(imageIdFor('a', 'expiry'))).toBeUndefined();
+  });
+
+  it('drops photos an update no longer refers to', async () => {
+    const repository = createInMemoryPantryRepository();
+    const saved = product('a');
+    await repository.add(saved, { nameImage: photo('name'), expiryImage: photo('label') });
+
+    await repository.update({ ...saved, expiryImageId: imageIdFor('a', 'expiry', 'r2') }, { expiryImage: photo('new label') });
+    expect(await repository.getImage(imageIdFor('a', 'expiry'))).toBeUndefined();
+    expect(await repository.getImage(imageIdFor('a', 'expiry', 'r2'))).toBeDefined();
+    expect(await repository.getImage(imageIdFor('a', 'name'))).toBeDefined();
+  });
+
+  it('applies a batch of saves and deletes together', async () => {
+    const repository = createInMemoryPantryRepository();
+    await repository.add(product('gone'), { expiryImage: photo('label') });
+    await repository.applyChanges({
+      save: [{ product: product('kept', { name: 'Replaced' }) }, { product: product('added') }],
+      deleteIds: ['gone'],
+    });
+    expect((await repository.list()).map(p => p.id).sort()).toEqual(['added', 'kept']);
+    expect(await repository.getImage(imageIdFor('gone', 'expiry'))).toBeUndefined();
+  });
+
+  it('filters by expiry date, optionally including unknown dates', async () => {
+    const repository = createInMemoryPantryRepository([
+      product('early', { expiryDate: '2025-06-01' }),
+      product('late', { expiryDate: '2025-07-01' }),
+      product('unknown', { expiryDate: '' }),
+    ]);
+    expect((await repository.queryByExpiry({ to: '2025-06-30' })).map(p => p.id)).toEqual(['early']);
+    expect((await repository.queryByExpiry({ from: '2025-06-02', includeUnknown: true })).map(p => p.id).sort()).toEqual(['late', 'unknown']);
+  });
+
+  it('tells watchers about the current products and every change until they unsubscribe', async () => {
+    const repository = createInMemoryPantryRepository([product('a')]);
+    const listener = vi.fn();
+    const unsubscribe = repository.watch(listener);
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(1));
+    expect(listener.mock.calls[0][0].map((p: Product) => p.id)).toEqual(['a']);
+
+    await repository.add(product('b', { scannedAt: '2025-06-02T10:00:00.000Z' }));
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener.mock.calls[1][0].map((p: Product) => p.id)).toEqual(['b', 'a']);
+
+    unsubscribe();
+    await repository.delete('a');
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
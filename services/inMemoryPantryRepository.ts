@@ -0,0 +1,89 @@
+import { Product } from '../types';
+import {
+  PantryRepository,
+  ProductImages,
+  ExpiryQuery,
+  ProductNotFoundError,
+  matchesExpiryQuery,
+  sortNewestFirst,
+  staleImageIds,
+  productImageIds,
+  createChangeNotifier,
+} from './pantryRepository';
+
+// Keeps everything in memory; used by tests and as a starting point for custom backends
+export const createInMemoryPantryRepository = (initialProducts: Product[] = []): PantryRepository => {
+  const products = new Map<string, Product>(initialProducts.map(p => [p.id, p]));
+  const images = new Map<string, Blob>();
+
+  const list = async () => sortNewestFirst([...products.values()]);
+  const notifier = createChangeNotifier(list);
+
+  const storeImages = (product: Product, productImages: ProductImages) => {
+    if (productImages.nameImage && product.nameImageId) images.set(product.nameImageId, productImages.nameImage);
+    if (productImages.expiryImage && product.expiryImageId) images.set(product.expiryImageId, productImages.expiryImage);
+    if (productImages.thumbnail && product.thumbnailImageId) images.set(product.thumbnailImageId, productImages.thumbnail);
+  };
+
+  return {
+    list,
+
+    get: async (productId) => products.get(productId),
+
+    add: async (product, productImages = {}) => {
+      if (products.has(product.id)) {
+        throw new Error(`Product ${product.id} already exists.`);
+      }
+      products.set(product.id, product);
+      storeImages(product, productImages);
+      await notifier.notify();
+      return product;
+    },
+
+    update: async (product, productImages = {}) => {
+      const previous = products.get(product.id);
+      if (!previous) {
+        throw new ProductNotFoundError(product.id);
+      }
+      staleImageIds(previous, product).forEach(imageId => images.delete(imageId));
+      products.set(product.id, product);
+      storeImages(product, productImages);
+      await notifier.notify();
+      return product;
+    },
+
+    delete: async (productId) => {
+      const product = products.get(productId);
+      if (!product) return;
+      products.delete(productId);
+      productImageIds(product).forEach(imageId => images.delete(imageId));
+      await notifier.notify();
+    },
+
+    applyChanges: async ({ save, deleteIds }) => {
+      deleteIds.forEach(productId => {
+        const product = products.get(productId);
+        if (product) productImageIds(product).forEach(imageId => images.delete(imageId));
+        products.delete(productId);
+      });
+      save.forEach(({ product, images: productImages = {} }) => {
+        const previous = products.get(product.id);
+        if (previous) staleImageIds(previous, product).forEach(imageId => images.delete(imageId));
+        products.set(product.id, product);
+        storeImages(product, productImages);
+      });
+      await notifier.notify();
+    },
+
+    queryByExpiry: async (query: ExpiryQuery) => (await list()).filter(p => matchesExpiryQuery(p, query)),
+
+    getImage: async (imageId) => images.get(imageId),
+
+    // Nothing is ever read back from storage, so nothing can be quarantined
+    listQuarantined: async () => [],
+
+    discardQuarantined: async () => {},
+
+    watch: notifier.watch,
+  };
+};
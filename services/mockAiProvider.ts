@@ -0,0 +1,68 @@
+import { ExtractedProductDetails } from '../types';
+import { AiCallOptions, AiProvider } from './aiProvider';
+import { AiBadRequestError, AiCancelledError } from './aiErrors';
+import { recipeListSchema, validateAiOutput } from './aiSchemas';
+
+export interface MockAiFixtures {
+  products: ExtractedProductDetails[];
+  recipes: unknown; // Validated like a real response, so it may deliberately contain bad entries
+}
+
+interface MockAiProviderOptions {
+  delayMs?: number; // Simulated network latency, so loading states can still be seen
+}
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new AiCancelledError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AiCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Small stable string hash (djb2); the same photo always maps to the same fixture product
+const hashString = (value: string): number => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+};
+
+// Answers from fixture data instead of a model: no API key, no network, same answer for the same input
+export const createMockAiProvider = (fixtures: MockAiFixtures, { delayMs = 300 }: MockAiProviderOptions = {}): AiProvider => {
+  if (fixtures.products.length === 0) {
+    // A setup mistake rather than a bad AI answer, so it isn't reported as one
+    throw new Error("Mock AI fixtures must contain at least one product. Add one to fixtures/mockAi.json.");
+  }
+
+  const productFor = async (imageBase64DataUrl: string, options?: AiCallOptions): Promise<ExtractedProductDetails> => {
+    if (!imageBase64DataUrl) {
+      throw new AiBadRequestError("Image data is missing.");
+    }
+    await delay(delayMs, options?.signal);
+    return fixtures.products[hashString(imageBase64DataUrl) % fixtures.products.length];
+  };
+
+  return {
+    extractProductName: async (imageBase64DataUrl, options) => (await productFor(imageBase64DataUrl, options)).name,
+    extractExpiryText: async (imageBase64DataUrl, options) => (await productFor(imageBase64DataUrl, options)).expiryText,
+    extractProductDetails: productFor,
+    // Preferences are ignored here; the allergen filter in the app still applies to the fixture recipes
+    suggestRecipes: async (ingredients, _preferences, options) => {
+      if (!ingredients || ingredients.length === 0) {
+        throw new AiBadRequestError("No ingredients provided to suggest recipes.");
+      }
+      await delay(delayMs, options?.signal);
+      // Fixtures go through the same validation as a real response, so malformed ones can be tried offline
+      const { value, warnings } = validateAiOutput(fixtures.recipes, recipeListSchema, 'recipes');
+      return { recipes: value, warnings };
+    },
+  };
+};
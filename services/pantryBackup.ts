@@ -0,0 +1,201 @@
+import { Product } from '../types';
+import { PantryRepository, ProductImages, productImageIds, imageIdFor } from './pantryRepository';
+import { INVALID, Validator, arrayOf, number, object, oneOf, string, validate, withDefault } from './schemaValidator';
+import { toStoredProduct, upgradeProductRecord } from './productMigrations';
+import { blobToDataUrl, dataUrlToBlob } from './imageUtils';
+import { getStock } from './pantryInventory';
+
+export const BACKUP_FORMAT = 'pantry-pal-backup';
+export const BACKUP_VERSION = 1;
+
+export interface PantryBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string; // ISO string for date
+  products: Product[];
+  images: Record<string, string>; // Data URLs keyed by image id; empty when exported without photos
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportSummary {
+  added: number;
+  updated: number; // Products whose id was already in the pantry; the backup's copy wins
+  removed: number; // Only in replace mode
+}
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+type RawBackup = Record<string, unknown>;
+
+// Version 0 is the bare product array the app used to keep under the `pantryProducts` localStorage key,
+// with each photo inlined as base64
+const fromLegacyProducts = (data: RawBackup): RawBackup => {
+  const images: Record<string, string> = {};
+  const products = (data.products as Record<string, unknown>[]).map(({ nameImageBase64, expiryImageBase64, ...rest }) => {
+    const id = String(rest.id);
+    const product = { ...rest, nameImageId: imageIdFor(id, 'name'), expiryImageId: imageIdFor(id, 'expiry') };
+    if (typeof nameImageBase64 === 'string' && nameImageBase64) images[product.nameImageId] = nameImageBase64;
+    if (typeof expiryImageBase64 === 'string' && expiryImageBase64) images[product.expiryImageId] = expiryImageBase64;
+    return product;
+  });
+  return { format: BACKUP_FORMAT, version: 1, exportedAt: new Date().toISOString(), products, images };
+};
+
+// Each step upgrades a backup from its key version to the next one
+const MIGRATIONS: Record<number, (data: RawBackup) => RawBackup> = {
+  0: fromLegacyProducts,
+};
+
+const readVersion = (data: unknown): { version: number; data: RawBackup } => {
+  if (Array.isArray(data)) return { version: 0, data: { products: data } };
+  if (typeof data === 'object' && data !== null && (data as RawBackup).format === BACKUP_FORMAT) {
+    const version = (data as RawBackup).version;
+    if (typeof version === 'number' && Number.isInteger(version)) return { version, data: data as RawBackup };
+  }
+  throw new BackupFormatError("This file isn't a Pantry Pal backup.");
+};
+
+// Decoded up front so a broken photo is found before the import changes anything
+const isImageData = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !value.startsWith('data:image/')) return false;
+  try {
+    dataUrlToBlob(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const imagesSchema: Validator<Record<string, string>> = (input, path, warnings) => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) return {};
+  const images: Record<string, string> = {};
+  Object.entries(input).forEach(([imageId, dataUrl]) => {
+    if (isImageData(dataUrl)) {
+      images[imageId] = dataUrl;
+    } else {
+      warnings.push(`${path}.${imageId} is not an image and has been left out.`);
+    }
+  });
+  return images;
+};
+
+// Products go through the same migrations as stored records, so one from an older backup is upgraded before
+// it is checked
+const backupProductSchema: Validator<Product> = (input, path, warnings) => {
+  const result = upgradeProductRecord(input);
+  if (result.status === 'ok') return result.product;
+  warnings.push(result.status === 'newer' ? `${path} was saved by a newer version of the app.` : `${path}: ${result.reason}`);
+  return INVALID;
+};
+
+const backupSchema: Validator<PantryBackup> = object<PantryBackup>({
+  format: oneOf([BACKUP_FORMAT] as const),
+  version: number(),
+  exportedAt: string(),
+  products: arrayOf(backupProductSchema),
+  images: withDefault(imagesSchema, {}),
+});
+
+// Reads a backup file, upgrading older versions. Products that fail validation are left out with a warning;
+// a file that can't be read at all throws a BackupFormatError.
+export const parsePantryBackup = (text: string): { backup: PantryBackup; warnings: string[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupFormatError("This file isn't valid JSON.");
+  }
+
+  let { version, data } = readVersion(parsed);
+  if (version > BACKUP_VERSION) {
+    throw new BackupFormatError("This backup was made by a newer version of the app. Please update and try again.");
+  }
+  while (version < BACKUP_VERSION) {
+    data = MIGRATIONS[version](data);
+    version += 1;
+  }
+
+  const result = validate(backupSchema, data, 'backup');
+  if (!result.ok) {
+    console.error("Backup failed validation:", result.warnings);
+    throw new BackupFormatError("This backup is damaged and can't be imported.");
+  }
+
+  // Later copies of the same id win, matching how an import treats ids already in the pantry
+  const byId = new Map(result.value.products.map(product => [product.id, product]));
+  const warnings = [...result.warnings];
+  if (byId.size < result.value.products.length) {
+    warnings.push(`${result.value.products.length - byId.size} duplicate product(s) in the file were merged.`);
+  }
+  return { backup: { ...result.value, products: [...byId.values()] }, warnings };
+};
+
+export const createPantryBackup = async (repository: PantryRepository, includeImages: boolean): Promise<PantryBackup> => {
+  const products = await repository.list();
+  const images: Record<string, string> = {};
+  if (includeImages) {
+    for (const imageId of products.flatMap(productImageIds)) {
+      const blob = await repository.getImage(imageId);
+      if (blob) images[imageId] = await blobToDataUrl(blob);
+    }
+  }
+  // Stamped with their schema version so a later app knows which product migrations they need
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    products: products.map(toStoredProduct),
+    images,
+  };
+};
+
+const imagesFor = (product: Product, images: Record<string, string>): ProductImages => ({
+  nameImage: product.nameImageId && images[product.nameImageId] ? dataUrlToBlob(images[product.nameImageId]) : undefined,
+  expiryImage: product.expiryImageId && images[product.expiryImageId] ? dataUrlToBlob(images[product.expiryImageId]) : undefined,
+  thumbnail: product.thumbnailImageId && images[product.thumbnailImageId] ? dataUrlToBlob(images[product.thumbnailImageId]) : undefined,
+});
+
+// Merge keeps pantry items that aren't in the backup; replace removes them. Either way, a product whose id
+// is already in the pantry is overwritten rather than duplicated. Every photo is decoded before anything is
+// written, and the pantry is changed in one step, so a failed import leaves it as it was.
+export const importPantryBackup = async (
+  repository: PantryRepository,
+  backup: PantryBackup,
+  mode: ImportMode
+): Promise<ImportSummary> => {
+  const existing = await repository.list();
+  const existingIds = new Set(existing.map(product => product.id));
+  const importedIds = new Set(backup.products.map(product => product.id));
+
+  const save = backup.products.map(product => ({ product, images: imagesFor(product, backup.images) }));
+  const deleteIds = mode === 'replace' ? existing.filter(p => !importedIds.has(p.id)).map(p => p.id) : [];
+  await repository.applyChanges({ save, deleteIds });
+
+  const updated = backup.products.filter(product => existingIds.has(product.id)).length;
+  return { added: backup.products.length - updated, updated, removed: deleteIds.length };
+};
+
+const CSV_COLUMNS = ['id', 'name', 'expiryDate', 'expiryLabelType', 'quantity', 'unit', 'location', 'price', 'barcode', 'scannedAt'] as const;
+
+// Quotes fields that need it, and stops spreadsheets treating text like "=SUM(...)" as a formula
+const csvField = (value: string | number | undefined): string => {
+  if (value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per product, for spreadsheets. CSV can't hold photos or edit history, so it is export-only.
+export const toPantryCsv = (products: Product[]): string => {
+  const rows = products.map(product => {
+    const withStock = { ...product, ...getStock(product) };
+    return CSV_COLUMNS.map(column => csvField(withStock[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
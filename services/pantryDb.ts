@@ -0,0 +1,334 @@
+import { PantryEvent, Product, QuarantinedRecord, SavedRecipe, ShoppingListItem } from '../types';
+import { dataUrlToBlob } from './imageUtils';
+import { ProductImages, sortNewestFirst, imageIdFor, productImageIds } from './pantryRepository';
+import { toStoredProduct, upgradeProductRecord } from './productMigrations';
+
+const DB_NAME = 'pantryPal';
+const DB_VERSION = 5; // 2: added the recipe book, 3: added the shopping list, 4: added the quarantine, 5: added the event log
+const PRODUCTS_STORE = 'products';
+const IMAGES_STORE = 'images';
+const RECIPES_STORE = 'recipes';
+const SHOPPING_STORE = 'shoppingList';
+const QUARANTINE_STORE = 'quarantine';
+const EVENTS_STORE = 'events';
+
+// Key used before products moved to IndexedDB
+const LEGACY_STORAGE_KEY = 'pantryProducts';
+
+interface LegacyProduct extends Omit<Product, 'nameImageId' | 'expiryImageId'> {
+  nameImageBase64?: string;
+  expiryImageBase64?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction aborted."));
+  });
+
+export const openPantryDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PRODUCTS_STORE)) {
+          db.createObjectStore(PRODUCTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+          db.createObjectStore(IMAGES_STORE);
+        }
+        if (!db.objectStoreNames.contains(RECIPES_STORE)) {
+          db.createObjectStore(RECIPES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SHOPPING_STORE)) {
+          db.createObjectStore(SHOPPING_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(QUARANTINE_STORE)) {
+          db.createObjectStore(QUARANTINE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(EVENTS_STORE)) {
+          db.createObjectStore(EVENTS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Photo keys a raw stored record refers to, read without trusting its shape
+const referencedImageIds = (record: unknown): string[] => {
+  if (typeof record !== 'object' || record === null) return [];
+  const fields = record as Record<string, unknown>;
+  return [...new Set([fields.nameImageId, fields.expiryImageId, fields.thumbnailImageId])]
+    .filter((id): id is string => typeof id === 'string' && id !== '');
+};
+
+const quarantineEntry = (record: unknown, reason: string, quarantinedAt: string): QuarantinedRecord => ({
+  id: crypto.randomUUID(),
+  record,
+  reason,
+  quarantinedAt,
+  imageIds: referencedImageIds(record),
+});
+
+// Every read upgrades and validates the stored records, so nothing unchecked reaches the app. Records upgraded
+// to the current schema are written back. Records that can't be read or upgraded are moved to the quarantine
+// store (their photos stay until the record is discarded) so one bad record can't take the pantry down with it.
+// Records from a newer version of the app are left in storage but not shown.
+export const loadProducts = async (): Promise<Product[]> => {
+  const db = await openPantryDb();
+  const readStore = db.transaction(PRODUCTS_STORE, 'readonly').objectStore(PRODUCTS_STORE);
+  const [keys, records] = await Promise.all([
+    requestToPromise(readStore.getAllKeys()),
+    requestToPromise(readStore.getAll() as IDBRequest<unknown[]>),
+  ]);
+
+  const quarantinedAt = new Date().toISOString();
+  const products: Product[] = [];
+  const upgraded: Product[] = [];
+  const quarantined: { key: IDBValidKey; entry: QuarantinedRecord }[] = [];
+  records.forEach((record, index) => {
+    const result = upgradeProductRecord(record);
+    if (result.status === 'ok') {
+      products.push(result.product);
+      if (result.changed) upgraded.push(result.product);
+    } else if (result.status === 'failed') {
+      quarantined.push({ key: keys[index], entry: quarantineEntry(record, result.reason, quarantinedAt) });
+    } else {
+      console.warn(`Product ${String(keys[index])} was saved by a newer app version (${result.version}); leaving it alone.`);
+    }
+  });
+
+  if (upgraded.length > 0 || quarantined.length > 0) {
+    const transaction = db.transaction([PRODUCTS_STORE, QUARANTINE_STORE], 'readwrite');
+    upgraded.forEach(product => transaction.objectStore(PRODUCTS_STORE).put(toStoredProduct(product)));
+    quarantined.forEach(({ key, entry }) => {
+      transaction.objectStore(PRODUCTS_STORE).delete(key);
+      transaction.objectStore(QUARANTINE_STORE).put(entry);
+    });
+    await transactionDone(transaction);
+    console.info(`Upgraded ${upgraded.length} stored product(s), quarantined ${quarantined.length}.`);
+  }
+  return sortNewestFirst(products);
+};
+
+export const saveProduct = async (
+  product: Product,
+  images: ProductImages = {},
+  removedImageIds: string[] = []
+): Promise<void> => {
+  const db = await openPantryDb();
+  const transaction = db.transaction([PRODUCTS_STORE, IMAGES_STORE], 'readwrite');
+  transaction.objectStore(PRODUCTS_STORE).put(toStoredProduct(product));
+  removedImageIds.forEach(imageId => transaction.objectStore(IMAGES_STORE).delete(imageId));
+  if (images.nameImage && product.nameImageId) {
+    transaction.objectStore(IMAGES_STORE).put(images.nameImage, product.nameImageId);
+  }
+  if (images.expiryImage && product.expiryImageId) {
+    transaction.objectStore(IMAGES_STORE).put(images.expiryImage, product.expiryImageId);
+  }
+  if (images.thumbnail && product.thumbnailImageId) {
+    transaction.objectStore(IMAGES_STORE).put(images.thumbnail, product.thumbnailImageId);
+  }
+  await transactionDone(transaction);
+};
+
+export const loadProduct = async (productId: string): Promise<Product | undefined> => {
+  const db = await openPantryDb();
+  const store = db.transaction(PRODUCTS_STORE, 'readonly').objectStore(PRODUCTS_STORE);
+  const record = await requestToPromise(store.get(productId) as IDBRequest<unknown>);
+  if (record === undefined) return undefined;
+  // Anything loadProducts wouldn't show is treated as missing
+  const result = upgradeProductRecord(record);
+  return result.status === 'ok' ? result.product : undefined;
+};
+
+export const deleteProduct = async (product: Product): Promise<void> => {
+  const db = await openPantryDb();
+  const transaction = db.transaction([PRODUCTS_STORE, IMAGES_STORE], 'readwrite');
+  transaction.objectStore(PRODUCTS_STORE).delete(product.id);
+  productImageIds(product).forEach(imageId => transaction.objectStore(IMAGES_STORE).delete(imageId));
+  await transactionDone(transaction);
+};
+
+// One transaction for the lot, so a failure part way (e.g. running out of storage) rolls everything back.
+// Photos of deleted products, and photos a replaced product no longer uses, are removed with them.
+export const writeProductChanges = async (
+  saves: { product: Product; images?: ProductImages }[],
+  deleteIds: string[]
+): Promise<void> => {
+  const db = await openPantryDb();
+  const transaction = db.transaction([PRODUCTS_STORE, IMAGES_STORE], 'readwrite');
+  const productStore = transaction.objectStore(PRODUCTS_STORE);
+  const imageStore = transaction.objectStore(IMAGES_STORE);
+  const records = await requestToPromise(productStore.getAll() as IDBRequest<unknown[]>);
+  const previousImageIds = new Map(records.map(record => [(record as { id?: unknown }).id, referencedImageIds(record)]));
+
+  deleteIds.forEach(productId => {
+    productStore.delete(productId);
+    (previousImageIds.get(productId) ?? []).forEach(imageId => imageStore.delete(imageId));
+  });
+  saves.forEach(({ product, images = {} }) => {
+    const kept = productImageIds(product);
+    (previousImageIds.get(product.id) ?? []).filter(imageId => !kept.includes(imageId)).forEach(imageId => imageStore.delete(imageId));
+    productStore.put(toStoredProduct(product));
+    if (images.nameImage && product.nameImageId) imageStore.put(images.nameImage, product.nameImageId);
+    if (images.expiryImage && product.expiryImageId) imageStore.put(images.expiryImage, product.expiryImageId);
+    if (images.thumbnail && product.thumbnailImageId) imageStore.put(images.thumbnail, product.thumbnailImageId);
+  });
+  await transactionDone(transaction);
+};
+
+export const loadImage = async (imageId: string): Promise<Blob | undefined> => {
+  const db = await openPantryDb();
+  const store = db.transaction(IMAGES_STORE, 'readonly').objectStore(IMAGES_STORE);
+  return requestToPromise(store.get(imageId) as IDBRequest<Blob | undefined>);
+};
+
+export const loadQuarantinedRecords = async (): Promise<QuarantinedRecord[]> => {
+  const db = await openPantryDb();
+  const store = db.transaction(QUARANTINE_STORE, 'readonly').objectStore(QUARANTINE_STORE);
+  return requestToPromise(store.getAll() as IDBRequest<QuarantinedRecord[]>);
+};
+
+// Removes the record along with the photos it referred to
+export const deleteQuarantinedRecord = async (recordId: string): Promise<void> => {
+  const db = await openPantryDb();
+  const transaction = db.transaction([QUARANTINE_STORE, IMAGES_STORE], 'readwrite');
+  const quarantineStore = transaction.objectStore(QUARANTINE_STORE);
+  const entry = await requestToPromise(quarantineStore.get(recordId) as IDBRequest<QuarantinedRecord | undefined>);
+  quarantineStore.delete(recordId);
+  (entry?.imageIds ?? []).forEach(imageId => transaction.objectStore(IMAGES_STORE).delete(imageId));
+  await transactionDone(transaction);
+};
+
+export const loadSavedRecipes = async (): Promise<SavedRecipe[]> => {
+  const db = await openPantryDb();
+  const store = db.transaction(RECIPES_STORE, 'readonly').objectStore(RECIPES_STORE);
+  return requestToPromise(store.getAll() as IDBRequest<SavedRecipe[]>);
+};
+
+export const putSavedRecipe = async (savedRecipe: SavedRecipe): Promise<void> => {
+  const db = await openPantryDb();
+  const transaction = db.transaction(RECIPES_STORE, 'readwrite');
+  transaction.objectStore(RECIPES_STORE).put(savedRecipe);
+  await transactionDone(transaction);
+};
+
+export const deleteSavedRecipe = async (savedRecipeId: string): Promise<void> => {
+  const db = await openPantryDb();
+  const transaction = db.transaction(RECIPES_STORE, 'readwrite');
+  transaction.objectStore(RECIPES_STORE).delete(savedRecipeId);
+  await transactionDone(transaction);
+};
+
+export const loadShoppingListItems = async (): Promise<ShoppingListItem[]> => {
+  const db = await openPantryDb();
+  const store = db.transaction(SHOPPING_STORE, 'readonly').objectStore(SHOPPING_STORE);
+  return requestToPromise(store.getAll() as IDBRequest<ShoppingListItem[]>);
+};
+
+export const putShoppingListItems = async (items: ShoppingListItem[]): Promise<void> => {
+  const db = await openPantryDb();
+  const transaction = db.transaction(SHOPPING_STORE, 'readwrite');
+  items.forEach(item => transaction.objectStore(SHOPPING_STORE).put(item));
+  await transactionDone(transaction);
+};
+
+export const deleteShoppingListItems = async (itemIds: string[]): Promise<void> => {
+  const db = await openPantryDb();
+  const transaction = db.transaction(SHOPPING_STORE, 'readwrite');
+  itemIds.forEach(itemId => transaction.objectStore(SHOPPING_STORE).delete(itemId));
+  await transactionDone(transaction);
+};
+
+export const loadPantryEvents = async (): Promise<PantryEvent[]> => {
+  const db = await openPantryDb();
+  const store = db.transaction(EVENTS_STORE, 'readonly').objectStore(EVENTS_STORE);
+  return requestToPromise(store.getAll() as IDBRequest<PantryEvent[]>);
+};
+
+export const putPantryEvent = async (event: PantryEvent): Promise<void> => {
+  const db = await openPantryDb();
+  const transaction = db.transaction(EVENTS_STORE, 'readwrite');
+  transaction.objectStore(EVENTS_STORE).put(event);
+  await transactionDone(transaction);
+};
+
+// Moves products saved under the old single localStorage key into IndexedDB, splitting out the images.
+// The key is only removed once everything has been written, so a failed run is retried next load.
+// A value that isn't a list of products at all is quarantined as it is, so it can't fail every start.
+export const migrateFromLocalStorage = async (): Promise<number> => {
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) return 0;
+
+  let legacyProducts: unknown[];
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) throw new Error("Expected a list of products.");
+    legacyProducts = parsed;
+  } catch (e) {
+    const db = await openPantryDb();
+    const transaction = db.transaction(QUARANTINE_STORE, 'readwrite');
+    const reason = `Old saved pantry could not be read: ${e instanceof Error ? e.message : String(e)}`;
+    transaction.objectStore(QUARANTINE_STORE).put(quarantineEntry(stored, reason, new Date().toISOString()));
+    await transactionDone(transaction);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return 0;
+  }
+
+  const db = await openPantryDb();
+  const transaction = db.transaction([PRODUCTS_STORE, IMAGES_STORE, QUARANTINE_STORE], 'readwrite');
+  const productStore = transaction.objectStore(PRODUCTS_STORE);
+  const imageStore = transaction.objectStore(IMAGES_STORE);
+  const quarantinedAt = new Date().toISOString();
+
+  // A photo that won't decode is dropped rather than holding up the whole migration
+  const putImage = (dataUrl: string | undefined, imageId: string): string | undefined => {
+    if (!dataUrl) return undefined;
+    try {
+      imageStore.put(dataUrlToBlob(dataUrl), imageId);
+      return imageId;
+    } catch (e) {
+      console.warn(`Dropped an unreadable photo while migrating ${imageId}`, e);
+      return undefined;
+    }
+  };
+
+  legacyProducts.forEach(entry => {
+    // Without an id there is nothing to store it under; the rest is checked when products are next loaded
+    if (typeof entry !== 'object' || entry === null || typeof (entry as { id?: unknown }).id !== 'string') {
+      transaction.objectStore(QUARANTINE_STORE).put(quarantineEntry(entry, "Old saved product has no id.", quarantinedAt));
+      return;
+    }
+    const { nameImageBase64, expiryImageBase64, ...rest } = entry as LegacyProduct;
+    const product: Product = {
+      ...rest,
+      nameImageId: putImage(nameImageBase64, imageIdFor(rest.id, 'name')),
+      expiryImageId: putImage(expiryImageBase64, imageIdFor(rest.id, 'expiry')),
+    };
+    productStore.put(product);
+  });
+
+  await transactionDone(transaction);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return legacyProducts.length;
+};
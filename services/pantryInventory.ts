@@ -0,0 +1,61 @@
+import { PantryIngredient, Product, StockDetails, StorageLocation } from '../types';
+import { daysUntilExpiry, sortByExpiry } from './expiryStatus';
+
+export const DEFAULT_LOCATIONS: StorageLocation[] = ['pantry', 'fridge', 'freezer'];
+
+export const UNITS = ['item', 'can', 'bottle', 'pack', 'jar', 'g', 'kg', 'ml', 'l'];
+
+// Weights and volumes; everything else is counted in whole things
+export const MEASURED_UNITS = ['g', 'kg', 'ml', 'l'];
+
+// Whether "one" of the unit means anything, so "Use one" can take a single thing off
+export const isCountUnit = (unit: string): boolean => !MEASURED_UNITS.includes(unit);
+
+export const DEFAULT_STOCK: StockDetails = { quantity: 1, unit: 'item', location: 'pantry' };
+
+export const getStock = (product: Product): StockDetails => ({
+  quantity: product.quantity ?? DEFAULT_STOCK.quantity,
+  unit: product.unit ?? DEFAULT_STOCK.unit,
+  location: product.location ?? DEFAULT_STOCK.location,
+  price: product.price,
+});
+
+// Returns the product with `amount` used up, or null once nothing is left. A recorded price shrinks
+// in proportion, so it stays the value of what is left.
+export const consumeQuantity = (product: Product, amount: number): Product | null => {
+  const { quantity, price } = getStock(product);
+  const remaining = Math.round((quantity - amount) * 1000) / 1000;
+  if (remaining <= 0) return null;
+  return { ...product, quantity: remaining, price: price === undefined ? undefined : Math.round(price * remaining / quantity * 100) / 100 };
+};
+
+export const formatPrice = (price: number): string =>
+  price.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const formatQuantity = ({ quantity, unit }: Pick<StockDetails, 'quantity' | 'unit'>): string =>
+  unit === 'item' ? `${quantity} ${quantity === 1 ? 'item' : 'items'}` : `${quantity} ${unit}`;
+
+export const formatLocation = (location: StorageLocation): string =>
+  location.charAt(0).toUpperCase() + location.slice(1);
+
+// Built-in locations followed by any custom ones already in use
+export const listLocations = (products: Product[]): StorageLocation[] => {
+  const custom = products
+    .map(p => getStock(p).location)
+    .filter(location => !DEFAULT_LOCATIONS.includes(location));
+  return [...DEFAULT_LOCATIONS, ...Array.from(new Set(custom)).sort()];
+};
+
+// Soonest-expiring first, so recipe generation sees the most urgent items at the top
+export const toPantryIngredients = (products: Product[], today: Date): PantryIngredient[] =>
+  sortByExpiry(products).map(product => {
+    const { quantity, unit } = getStock(product);
+    return {
+      name: product.name,
+      quantity,
+      unit,
+      expiryDate: product.expiryDate,
+      expiryLabelType: product.expiryLabelType ?? 'unknown',
+      daysUntilExpiry: daysUntilExpiry(product.expiryDate, today),
+    };
+  });
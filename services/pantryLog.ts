@@ -0,0 +1,68 @@
+import { PantryEvent, Product, RemovalOutcome } from '../types';
+import { createChangeNotifier } from './pantryRepository';
+import { loadPantryEvents, putPantryEvent } from './pantryDb';
+import { getStock } from './pantryInventory';
+
+const CHANGE_CHANNEL = 'pantry-log-changes';
+
+export const REMOVAL_OUTCOME_LABELS: Record<RemovalOutcome, string> = {
+  consumed: 'Eaten or used',
+  discarded: 'Thrown away',
+  'given-away': 'Given away',
+};
+
+// Append-only record of items leaving the pantry, for the waste analytics
+export interface PantryLog {
+  list(): Promise<PantryEvent[]>;
+  record(event: PantryEvent): Promise<void>;
+  // Calls the listener with the current events now and after every change; returns an unsubscribe function
+  watch(listener: (events: PantryEvent[]) => void, onError?: (error: unknown) => void): () => void;
+}
+
+// Newest first
+const sortPantryLog = (events: PantryEvent[]): PantryEvent[] =>
+  [...events].sort((a, b) => b.removedAt.localeCompare(a.removedAt));
+
+// Logs the whole of what is left of the product, at its current value
+export const createPantryEvent = (
+  product: Product,
+  outcome: RemovalOutcome,
+  removedAt: string = new Date().toISOString()
+): PantryEvent => {
+  const { quantity, unit, price } = getStock(product);
+  return {
+    id: crypto.randomUUID(),
+    productId: product.id,
+    name: product.name,
+    outcome,
+    quantity,
+    unit,
+    price,
+    expiryDate: product.expiryDate,
+    scannedAt: product.scannedAt,
+    removedAt,
+  };
+};
+
+// IndexedDB-backed, sharing the pantry database. Changes made in other tabs are picked up via BroadcastChannel.
+export const createBrowserPantryLog = (): PantryLog => {
+  const list = async () => sortPantryLog(await loadPantryEvents());
+
+  const notifier = createChangeNotifier(list);
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANGE_CHANNEL) : null;
+  if (channel) {
+    channel.onmessage = () => { notifier.notify(); };
+  }
+
+  return {
+    list,
+
+    record: async (event) => {
+      await putPantryEvent(event);
+      channel?.postMessage('changed');
+      await notifier.notify();
+    },
+
+    watch: notifier.watch,
+  };
+};
@@ -0,0 +1,108 @@
+import { Product, QuarantinedRecord } from '../types';
+import { parseIsoDate } from './expiryParser';
+
+export interface ProductImages {
+  nameImage?: Blob;
+  expiryImage?: Blob;
+  thumbnail?: Blob;
+}
+
+// Inclusive YYYY-MM-DD bounds; products without a readable date only match when includeUnknown is set
+export interface ExpiryQuery {
+  from?: string;
+  to?: string;
+  includeUnknown?: boolean;
+}
+
+// Several saves and deletions applied together
+export interface PantryChanges {
+  save: { product: Product; images?: ProductImages }[]; // Added, or replacing the product with the same id
+  deleteIds: string[];
+}
+
+export type PantryChangeListener = (products: Product[]) => void;
+
+// Everything the app needs from wherever products are kept. Components only ever see this interface,
+// so a different backend (e.g. a REST service) can be passed to <App> without touching them.
+export interface PantryRepository {
+  list(): Promise<Product[]>;
+  get(productId: string): Promise<Product | undefined>; // undefined once the product has been deleted
+  add(product: Product, images?: ProductImages): Promise<Product>;
+  update(product: Product, images?: ProductImages): Promise<Product>;
+  delete(productId: string): Promise<void>;
+  // All or nothing: if any part fails, the pantry is left as it was
+  applyChanges(changes: PantryChanges): Promise<void>;
+  queryByExpiry(query: ExpiryQuery): Promise<Product[]>;
+  getImage(imageId: string): Promise<Blob | undefined>;
+  // Stored records that couldn't be read as products, kept so nothing is lost silently
+  listQuarantined(): Promise<QuarantinedRecord[]>;
+  discardQuarantined(recordId: string): Promise<void>;
+  // Calls the listener with the current products now and after every change; returns an unsubscribe function
+  watch(listener: PantryChangeListener, onError?: (error: unknown) => void): () => void;
+}
+
+export class ProductNotFoundError extends Error {
+  constructor(productId: string) {
+    super(`Product ${productId} was not found.`);
+    this.name = 'ProductNotFoundError';
+  }
+}
+
+export const matchesExpiryQuery = (product: Product, query: ExpiryQuery): boolean => {
+  const expiry = parseIsoDate(product.expiryDate);
+  if (!expiry) return !!query.includeUnknown;
+  if (query.from && product.expiryDate < query.from) return false;
+  if (query.to && product.expiryDate > query.to) return false;
+  return true;
+};
+
+// A revision gives a replaced image (e.g. a re-scanned expiry label) a fresh key so cached views reload it
+export const imageIdFor = (productId: string, kind: 'name' | 'expiry' | 'thumbnail', revision?: string): string =>
+  revision ? `${productId}:${kind}:${revision}` : `${productId}:${kind}`;
+
+// Image keys the previous version of a product used that the new version no longer references
+export const staleImageIds = (previous: Product, next: Product): string[] => {
+  const kept = productImageIds(next);
+  return productImageIds(previous).filter(id => !kept.includes(id));
+};
+
+// A single photo showing both the name and the date is stored once and referenced by both ids
+export const productImageIds = (product: Product): string[] =>
+  [...new Set([product.nameImageId, product.expiryImageId, product.thumbnailImageId])].filter((id): id is string => !!id);
+
+// Newest scans first, matching the order the app has always shown
+export const sortNewestFirst = (products: Product[]): Product[] =>
+  [...products].sort((a, b) => b.scannedAt.localeCompare(a.scannedAt));
+
+// Shared listener bookkeeping for repository implementations (also used by the recipe book)
+export const createChangeNotifier = <T>(loadItems: () => Promise<T[]>) => {
+  const listeners = new Map<(items: T[]) => void, ((error: unknown) => void) | undefined>();
+
+  const notify = async () => {
+    if (listeners.size === 0) return;
+    try {
+      const items = await loadItems();
+      listeners.forEach((_, listener) => listener(items));
+    } catch (e) {
+      console.error("Failed to reload data for watchers", e);
+      listeners.forEach(onError => onError?.(e));
+    }
+  };
+
+  const watch = (listener: (items: T[]) => void, onError?: (error: unknown) => void) => {
+    listeners.set(listener, onError);
+    loadItems()
+      .then(items => {
+        if (listeners.has(listener)) listener(items);
+      })
+      .catch(e => {
+        console.error("Failed to load data for watcher", e);
+        if (listeners.has(listener)) onError?.(e);
+      });
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { notify, watch };
+};
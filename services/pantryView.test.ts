@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { ExpiryStatus, Product } from '../types';
+import { DEFAULT_PANTRY_VIEW, filterPantry, fuzzyMatch, groupPantry, pantryViewFromSearch, pantryViewToSearch } from './pantryView';
+
+const TODAY = new Date(2025, 5, 18); // A Wednesday
+
+const product = (id: string, name: string, expiryDate: string, location: string = 'pantry'): Product =>
+  ({ id, name, expiryDate, location, scannedAt: '2025-06-01T10:00:00.000Z' });
+
+describe('fuzzyMatch', () => {
+  it('scores prefixes above substrings above typos', () => {
+    expect(fuzzyMatch('ched', 'Mature Cheddar')).toBe(1);
+    expect(fuzzyMatch('dar', 'Mature Cheddar')).toBe(0.8);
+    expect(fuzzyMatch('chedar', 'Mature Cheddar')).toBe(0.6);
+    expect(fuzzyMatch('chdr', 'Mature Cheddar')).toBe(0.4);
+  });
+
+  it('counts a swap of neighbouring letters as one typo', () => {
+    expect(fuzzyMatch('ehcddar', 'Cheddar')).toBe(0.6);
+  });
+
+  it('ignores case and accents', () => {
+    expect(fuzzyMatch('CREME fraiche', 'Crème Fraîche')).toBe(1);
+  });
+
+  it('needs every typed word to match', () => {
+    expect(fuzzyMatch('cheddar milk', 'Mature Cheddar')).toBeNull();
+    expect(fuzzyMatch('xyz', 'Mature Cheddar')).toBeNull();
+  });
+
+  it('matches everything for an empty query', () => {
+    expect(fuzzyMatch('  ', 'Mature Cheddar')).toBe(1);
+  });
+});
+
+describe('pantryViewFromSearch', () => {
+  it('reads every parameter', () => {
+    expect(pantryViewFromSearch('?q=milk&status=expired,expiring_soon&location=fridge&from=2025-06-01&to=2025-06-30&sort=scanned&group=location&view=list'))
+      .toEqual({
+        query: 'milk',
+        statuses: [ExpiryStatus.EXPIRED, ExpiryStatus.EXPIRING_SOON],
+        location: 'fridge',
+        scannedFrom: '2025-06-01',
+        scannedTo: '2025-06-30',
+        sortOrder: 'scanned',
+        grouping: 'location',
+        layout: 'list',
+      });
+  });
+
+  it('falls back to the defaults for unknown or malformed values', () => {
+    expect(pantryViewFromSearch('?status=stale&from=yesterday&sort=price&group=aisle&view=grid')).toEqual(DEFAULT_PANTRY_VIEW);
+    expect(pantryViewFromSearch('')).toEqual(DEFAULT_PANTRY_VIEW);
+  });
+
+  it('round-trips through pantryViewToSearch', () => {
+    const view = { ...DEFAULT_PANTRY_VIEW, query: 'beans', statuses: [ExpiryStatus.FRESH], grouping: 'expiry-week' as const };
+    expect(pantryViewFromSearch(pantryViewToSearch(view))).toEqual(view);
+    expect(pantryViewToSearch(DEFAULT_PANTRY_VIEW)).toBe('');
+  });
+});
+
+describe('filterPantry', () => {
+  it('puts the best matches first while searching', () => {
+    const products = [product('a', 'Chedar crackers', '2025-06-19'), product('b', 'Cheddar', '2025-06-25')];
+    const view = { ...DEFAULT_PANTRY_VIEW, query: 'chedd' };
+    expect(filterPantry(products, view, TODAY, 3).map(p => p.id)).toEqual(['b', 'a']);
+  });
+
+  it('filters by status and location', () => {
+    const products = [product('a', 'Milk', '2025-06-17', 'fridge'), product('b', 'Rice', '2025-06-17'), product('c', 'Yoghurt', '2026-01-01', 'fridge')];
+    const view = { ...DEFAULT_PANTRY_VIEW, statuses: [ExpiryStatus.EXPIRED], location: 'fridge' };
+    expect(filterPantry(products, view, TODAY, 3).map(p => p.id)).toEqual(['a']);
+  });
+});
+
+describe('groupPantry', () => {
+  it('groups by the week of the expiry date, with expired and undated items apart', () => {
+    const groups = groupPantry([
+      product('expired', 'A', '2025-06-10'),
+      product('this-week', 'B', '2025-06-22'),
+      product('next-week', 'C', '2025-06-23'),
+      product('no-date', 'D', ''),
+    ], 'expiry-week', TODAY);
+    expect(groups.map(group => [group.label, group.products.map(p => p.id)])).toEqual([
+      ['Expired', ['expired']],
+      ['This week', ['this-week']],
+      ['Next week', ['next-week']],
+      ['No expiry date', ['no-date']],
+    ]);
+  });
+});
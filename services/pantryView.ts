@@ -0,0 +1,205 @@
+import { ExpiryStatus, Product, StorageLocation } from '../types';
+import { parseIsoDate } from './expiryParser';
+import { getExpiryStatus, sortByExpiry } from './expiryStatus';
+import { getStock, listLocations, formatLocation } from './pantryInventory';
+
+export type PantrySortOrder = 'expiry' | 'scanned';
+export type PantryGrouping = 'none' | 'expiry-week' | 'location';
+export type PantryLayout = 'cards' | 'list';
+
+// Everything that decides which pantry items are shown and how. Mirrored in the page URL so a view can be bookmarked.
+export interface PantryView {
+  query: string;
+  statuses: ExpiryStatus[]; // Empty shows every status
+  location: StorageLocation | 'all';
+  scannedFrom: string; // Inclusive YYYY-MM-DD bounds on the scan date; empty for no bound
+  scannedTo: string;
+  sortOrder: PantrySortOrder;
+  grouping: PantryGrouping;
+  layout: PantryLayout;
+}
+
+export interface PantryGroup {
+  key: string;
+  label: string;
+  products: Product[];
+}
+
+export const DEFAULT_PANTRY_VIEW: PantryView = {
+  query: '',
+  statuses: [],
+  location: 'all',
+  scannedFrom: '',
+  scannedTo: '',
+  sortOrder: 'expiry',
+  grouping: 'none',
+  layout: 'cards',
+};
+
+const SORT_ORDERS: PantrySortOrder[] = ['expiry', 'scanned'];
+const GROUPINGS: PantryGrouping[] = ['none', 'expiry-week', 'location'];
+const LAYOUTS: PantryLayout[] = ['cards', 'list'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const normalize = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Edit distance with adjacent swaps counting as one edit, the most common typo on a phone keyboard
+const editDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+const isSubsequence = (needle: string, haystack: string): boolean => {
+  let found = 0;
+  for (const char of haystack) {
+    if (char === needle[found]) found++;
+    if (found === needle.length) return true;
+  }
+  return false;
+};
+
+// How well one typed word matches one word of the name, from 1 (starts with it) down to 0 (no match)
+const scoreWord = (typed: string, word: string): number => {
+  if (word.startsWith(typed)) return 1;
+  if (word.includes(typed)) return 0.8;
+  // Longer words tolerate more typos. Prefixes of the word are compared too, so half-typed words still match.
+  const allowedEdits = typed.length >= 7 ? 2 : typed.length >= 4 ? 1 : 0;
+  const candidates = [word, word.slice(0, typed.length), word.slice(0, typed.length + 1)];
+  if (allowedEdits > 0 && candidates.some(candidate => editDistance(typed, candidate) <= allowedEdits)) return 0.6;
+  if (typed.length >= 3 && isSubsequence(typed, word)) return 0.4; // e.g. "chdr" for "cheddar"
+  return 0;
+};
+
+// Every typed word has to match some word of the name; the score is how well they match on average.
+// Returns null for no match, and 1 for an empty query.
+export const fuzzyMatch = (query: string, name: string): number | null => {
+  const typedWords = normalize(query).split(' ').filter(Boolean);
+  if (typedWords.length === 0) return 1;
+  const nameWords = normalize(name).split(' ').filter(Boolean);
+  let total = 0;
+  for (const typed of typedWords) {
+    const best = Math.max(0, ...nameWords.map(word => scoreWord(typed, word)));
+    if (best === 0) return null;
+    total += best;
+  }
+  return total / typedWords.length;
+};
+
+const scannedDay = (product: Product): string => {
+  const scanned = new Date(product.scannedAt);
+  if (isNaN(scanned.getTime())) return '';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${scanned.getFullYear()}-${pad(scanned.getMonth() + 1)}-${pad(scanned.getDate())}`;
+};
+
+// Applies the filters and sort order. While searching, the best matches come first and the sort order breaks ties.
+export const filterPantry = (products: Product[], view: PantryView, today: Date, expiringSoonDays: number): Product[] => {
+  const matching = products.filter(product => {
+    if (view.location !== 'all' && getStock(product).location !== view.location) return false;
+    if (view.statuses.length > 0 && !view.statuses.includes(getExpiryStatus(product.expiryDate, today, expiringSoonDays))) return false;
+    const day = scannedDay(product);
+    if (view.scannedFrom && day < view.scannedFrom) return false;
+    if (view.scannedTo && day > view.scannedTo) return false;
+    return true;
+  });
+  // Products are stored newest first, so scan order needs no sorting
+  const sorted = view.sortOrder === 'expiry' ? sortByExpiry(matching) : matching;
+  if (!view.query.trim()) return sorted;
+
+  return sorted
+    .map((product, order) => ({ product, order, score: fuzzyMatch(view.query, product.name) }))
+    .filter((entry): entry is { product: Product; order: number; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .map(({ product }) => product);
+};
+
+const startOfWeek = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+
+// Weeks start on Monday. Expired items and items without a date get groups of their own.
+const expiryWeekGroup = (product: Product, today: Date): { key: string; label: string; order: number } => {
+  const expiry = parseIsoDate(product.expiryDate);
+  if (!expiry) return { key: 'no-date', label: 'No expiry date', order: Number.MAX_SAFE_INTEGER };
+  if (expiry < new Date(today.getFullYear(), today.getMonth(), today.getDate())) {
+    return { key: 'expired', label: 'Expired', order: Number.MIN_SAFE_INTEGER };
+  }
+  const week = startOfWeek(expiry);
+  const thisWeek = startOfWeek(today).getTime();
+  const weeksAhead = Math.round((week.getTime() - thisWeek) / (7 * 24 * 60 * 60 * 1000));
+  const label = weeksAhead === 0 ? 'This week'
+    : weeksAhead === 1 ? 'Next week'
+    : `Week of ${week.toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}`;
+  return { key: `week-${week.getTime()}`, label, order: week.getTime() };
+};
+
+// Splits already filtered and sorted products into groups, keeping their order within each group
+export const groupPantry = (products: Product[], grouping: PantryGrouping, today: Date): PantryGroup[] => {
+  if (grouping === 'none') return [{ key: 'all', label: '', products }];
+
+  const groups = new Map<string, PantryGroup & { order: number }>();
+  const locationOrder = listLocations(products);
+  products.forEach(product => {
+    const location = getStock(product).location;
+    const { key, label, order } = grouping === 'expiry-week'
+      ? expiryWeekGroup(product, today)
+      : { key: `location-${location}`, label: formatLocation(location), order: locationOrder.indexOf(location) };
+    const group = groups.get(key) ?? { key, label, order, products: [] };
+    group.products.push(product);
+    groups.set(key, group);
+  });
+  return [...groups.values()].sort((a, b) => a.order - b.order).map(({ order, ...group }) => group);
+};
+
+const pick = <T extends string>(value: string | null, allowed: T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+// Unknown or malformed parameters fall back to the defaults, so an old or hand-edited bookmark still opens
+export const pantryViewFromSearch = (search: string): PantryView => {
+  const params = new URLSearchParams(search);
+  const statuses = (params.get('status') ?? '')
+    .split(',')
+    .map(status => status.toUpperCase())
+    .filter((status): status is ExpiryStatus => (Object.values(ExpiryStatus) as string[]).includes(status));
+  const date = (name: string) => {
+    const value = params.get(name) ?? '';
+    return ISO_DATE.test(value) ? value : '';
+  };
+  return {
+    query: params.get('q') ?? '',
+    statuses,
+    location: params.get('location') || 'all',
+    scannedFrom: date('from'),
+    scannedTo: date('to'),
+    sortOrder: pick(params.get('sort'), SORT_ORDERS, DEFAULT_PANTRY_VIEW.sortOrder),
+    grouping: pick(params.get('group'), GROUPINGS, DEFAULT_PANTRY_VIEW.grouping),
+    layout: pick(params.get('view'), LAYOUTS, DEFAULT_PANTRY_VIEW.layout),
+  };
+};
+
+// Only settings that differ from the defaults are written, keeping the URL short
+export const pantryViewToSearch = (view: PantryView): string => {
+  const params = new URLSearchParams();
+  if (view.query.trim()) params.set('q', view.query.trim());
+  if (view.statuses.length > 0) params.set('status', view.statuses.map(status => status.toLowerCase()).join(','));
+  if (view.location !== 'all') params.set('location', view.location);
+  if (view.scannedFrom) params.set('from', view.scannedFrom);
+  if (view.scannedTo) params.set('to', view.scannedTo);
+  if (view.sortOrder !== DEFAULT_PANTRY_VIEW.sortOrder) params.set('sort', view.sortOrder);
+  if (view.grouping !== DEFAULT_PANTRY_VIEW.grouping) params.set('group', view.grouping);
+  if (view.layout !== DEFAULT_PANTRY_VIEW.layout) params.set('view', view.layout);
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+export const isFilteredView = (view: PantryView): boolean =>
+  !!view.query.trim() || view.statuses.length > 0 || view.location !== 'all' || !!view.scannedFrom || !!view.scannedTo;
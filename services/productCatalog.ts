@@ -0,0 +1,60 @@
+import { CatalogEntry, Product, StockDetails } from '../types';
+import { getStock } from './pantryInventory';
+
+const CATALOG_KEY = 'pantryCatalog';
+
+type Catalog = Record<string, CatalogEntry>;
+
+const loadCatalog = (): Catalog => {
+  try {
+    const stored = localStorage.getItem(CATALOG_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    console.error("Failed to load product catalog from localStorage", e);
+    return {};
+  }
+};
+
+const saveCatalog = (catalog: Catalog): void => {
+  try {
+    localStorage.setItem(CATALOG_KEY, JSON.stringify(catalog));
+  } catch (e) {
+    console.error("Failed to save product catalog to localStorage", e);
+  }
+};
+
+export const lookupBarcode = (barcode: string): CatalogEntry | null => loadCatalog()[barcode] ?? null;
+
+// Names for autocomplete, with where each was kept last time: pantry items first, then anything ever saved by barcode
+export const listKnownProducts = (products: Product[]): Pick<CatalogEntry, 'name' | 'unit' | 'location'>[] => {
+  const known = new Map<string, Pick<CatalogEntry, 'name' | 'unit' | 'location'>>();
+  const remember = (entry: Pick<CatalogEntry, 'name' | 'unit' | 'location'>) => {
+    const key = entry.name.trim().toLowerCase();
+    if (key && !known.has(key)) known.set(key, { name: entry.name.trim(), unit: entry.unit, location: entry.location });
+  };
+  products.forEach(product => remember({ name: product.name, ...getStock(product) }));
+  Object.values(loadCatalog()).forEach(remember);
+  return [...known.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Records (or refreshes) what a barcode was saved as, so the next scan of it can skip the name photo
+export const learnBarcode = (
+  barcode: string,
+  name: string,
+  stock: Pick<StockDetails, 'unit' | 'location'>,
+  countAsScan: boolean = true // False when only correcting an existing item
+): CatalogEntry => {
+  const catalog = loadCatalog();
+  const previous = catalog[barcode];
+  const entry: CatalogEntry = {
+    barcode,
+    name,
+    unit: stock.unit,
+    location: stock.location,
+    timesScanned: (previous?.timesScanned ?? 0) + (countAsScan ? 1 : 0),
+    lastScannedAt: countAsScan || !previous ? new Date().toISOString() : previous.lastScannedAt,
+  };
+  catalog[barcode] = entry;
+  saveCatalog(catalog);
+  return entry;
+};
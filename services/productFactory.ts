@@ -0,0 +1,84 @@
+import { ExpiryLabelType, ParsedExpiry, Product, StockDetails } from '../types';
+import { diffProductEdits } from './productHistory';
+
+export interface ScannedProductInput {
+  id: string;
+  name: string;
+  expiryDate: string;
+  expiryLabelType: ExpiryLabelType;
+  stock: StockDetails;
+  aiName: string; // Name as the AI read it, before any correction
+  parsedExpiry: ParsedExpiry | null; // Label as the AI read it, before any correction
+  isExpiryConfirmed: boolean; // True once the user picked or typed the date
+  nameImageId?: string;
+  expiryImageId?: string;
+  thumbnailImageId?: string;
+  barcode?: string;
+  scannedAt?: string;
+}
+
+// Builds a new product from reviewed scan results, recording the AI reading and any corrections made to it
+export const createScannedProduct = (input: ScannedProductInput): Product => {
+  const scannedAt = input.scannedAt ?? new Date().toISOString();
+  const { parsedExpiry } = input;
+  const details = {
+    name: input.name.trim(),
+    expiryDate: input.expiryDate.trim(),
+    expiryLabelType: input.expiryLabelType,
+  };
+  const aiValues = {
+    name: input.aiName,
+    expiryDate: parsedExpiry?.isoDate ?? '',
+    expiryLabelType: parsedExpiry?.labelType ?? 'unknown',
+  };
+
+  return {
+    id: input.id,
+    ...details,
+    ...input.stock,
+    location: input.stock.location.trim(),
+    expiryRawText: parsedExpiry?.rawText,
+    // A date the user picked or typed is as certain as it gets
+    expiryConfidence: input.isExpiryConfirmed || !parsedExpiry ? 1 : parsedExpiry.confidence,
+    nameImageId: input.nameImageId,
+    expiryImageId: input.expiryImageId,
+    thumbnailImageId: input.thumbnailImageId,
+    barcode: input.barcode,
+    scannedAt,
+    aiExtraction: {
+      ...aiValues,
+      expiryDate: parsedExpiry?.isoDate ?? null,
+      expiryRawText: parsedExpiry?.rawText ?? '',
+      extractedAt: scannedAt,
+    },
+    // Corrections made before saving count as the first edits
+    editHistory: diffProductEdits(aiValues, details, 'user', scannedAt),
+  };
+};
+
+// A bought item waiting for its expiry label to be scanned; the photo gets its key when it is taken
+export const createPendingProduct = (name: string, stock: StockDetails, id: string = crypto.randomUUID()): Product => ({
+  id,
+  name: name.trim(),
+  expiryDate: '',
+  expiryLabelType: 'unknown',
+  ...stock,
+  scannedAt: new Date().toISOString(),
+  awaitingExpiryScan: true,
+});
+
+// An item typed in by hand, with no photos and nothing for the AI to have read
+export const createManualProduct = (
+  details: { name: string; expiryDate: string; expiryLabelType: ExpiryLabelType },
+  stock: StockDetails,
+  id: string = crypto.randomUUID()
+): Product => ({
+  id,
+  name: details.name.trim(),
+  expiryDate: details.expiryDate.trim(),
+  expiryLabelType: details.expiryLabelType,
+  expiryConfidence: 1,
+  ...stock,
+  location: stock.location.trim(),
+  scannedAt: new Date().toISOString(),
+});
@@ -0,0 +1,29 @@
+import { EditableProductField, Product, ProductEdit } from '../types';
+
+export const EDITABLE_FIELDS: EditableProductField[] = ['name', 'expiryDate', 'expiryLabelType', 'quantity', 'unit', 'location', 'price'];
+
+type EditableValues = Partial<Pick<Product, EditableProductField>>;
+
+const fieldValue = (values: EditableValues, field: EditableProductField): string =>
+  values[field] === undefined ? '' : String(values[field]);
+
+// One entry per field in `after` whose value differs from `before`
+export const diffProductEdits = (
+  before: EditableValues,
+  after: EditableValues,
+  source: ProductEdit['source'],
+  editedAt: string = new Date().toISOString()
+): ProductEdit[] =>
+  EDITABLE_FIELDS
+    .filter(field => field in after && fieldValue(before, field) !== fieldValue(after, field))
+    .map(field => ({ field, from: fieldValue(before, field), to: fieldValue(after, field), source, editedAt }));
+
+export const PRODUCT_FIELD_NAMES: Record<EditableProductField, string> = {
+  name: 'Name',
+  expiryDate: 'Expiry date',
+  expiryLabelType: 'Date type',
+  quantity: 'Quantity',
+  unit: 'Unit',
+  location: 'Location',
+  price: 'Price',
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { Product } from '../types';
+import { PRODUCT_SCHEMA_VERSION, toStoredProduct, upgradeProductRecord } from './productMigrations';
+
+const CURRENT_PRODUCT: Product = {
+  id: 'p1',
+  name: 'Cheddar',
+  expiryDate: '2025-06-20',
+  expiryLabelType: 'use-by',
+  quantity: 2,
+  unit: 'pack',
+  location: 'fridge',
+  expiryImageId: 'p1:expiry',
+  scannedAt: '2025-06-01T10:00:00.000Z',
+};
+
+describe('upgradeProductRecord', () => {
+  it('reads a current record unchanged', () => {
+    const result = upgradeProductRecord(toStoredProduct(CURRENT_PRODUCT));
+    expect(result).toEqual({ status: 'ok', product: CURRENT_PRODUCT, changed: false });
+  });
+
+  it('fills in the stock defaults for records saved before versioning', () => {
+    const result = upgradeProductRecord({ id: 'p2', name: 'Rice', expiryDate: '2026-01-01', expiryImageId: 'p2:expiry', scannedAt: '2024-01-01T10:00:00.000Z' });
+    expect(result).toMatchObject({
+      status: 'ok',
+      changed: true,
+      product: { id: 'p2', quantity: 1, unit: 'item', location: 'pantry' },
+    });
+  });
+
+  it('keeps stock details an unversioned record already had', () => {
+    const result = upgradeProductRecord({ ...CURRENT_PRODUCT, schemaVersion: undefined });
+    expect(result).toMatchObject({ status: 'ok', product: { quantity: 2, unit: 'pack', location: 'fridge' } });
+  });
+
+  it('leaves records from a newer version of the app alone', () => {
+    expect(upgradeProductRecord({ ...CURRENT_PRODUCT, schemaVersion: PRODUCT_SCHEMA_VERSION + 1 }))
+      .toEqual({ status: 'newer', version: PRODUCT_SCHEMA_VERSION + 1 });
+  });
+
+  it('fails records that are not products', () => {
+    expect(upgradeProductRecord('not a product')).toMatchObject({ status: 'failed' });
+    expect(upgradeProductRecord({ ...CURRENT_PRODUCT, schemaVersion: 'two' })).toMatchObject({ status: 'failed' });
+    expect(upgradeProductRecord({ ...toStoredProduct(CURRENT_PRODUCT), id: undefined })).toMatchObject({ status: 'failed' });
+  });
+});
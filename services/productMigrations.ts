@@ -0,0 +1,56 @@
+import { Product } from '../types';
+import { validate } from './schemaValidator';
+import { productSchema } from './productSchema';
+
+// Bump this and add a step to MIGRATIONS whenever existing records need changing to fit a new Product shape.
+// New optional fields don't need one.
+export const PRODUCT_SCHEMA_VERSION = 2;
+
+// Records written before versioning existed have no version field
+const UNVERSIONED = 1;
+
+type ProductRecord = Record<string, unknown>;
+
+// A product as written to storage, stamped with the schema version it was saved under
+export type StoredProduct = Product & { schemaVersion: number };
+
+// Each step upgrades a record from its key version to the next one. Steps only ever see plain data,
+// never the current Product type, so they keep working as that type changes.
+const MIGRATIONS: Record<number, (record: ProductRecord) => ProductRecord> = {
+  // 1 → 2: spell out the stock defaults that items saved before quantities existed were always shown with
+  1: record => ({ quantity: 1, unit: 'item', location: 'pantry', ...record }),
+};
+
+export type UpgradeResult =
+  | { status: 'ok'; product: Product; changed: boolean } // changed: needs writing back in the current shape
+  | { status: 'newer'; version: number } // Saved by a newer version of the app; left alone
+  | { status: 'failed'; reason: string };
+
+const isRecord = (input: unknown): input is ProductRecord =>
+  typeof input === 'object' && input !== null && !Array.isArray(input);
+
+export const toStoredProduct = (product: Product): StoredProduct => ({ ...product, schemaVersion: PRODUCT_SCHEMA_VERSION });
+
+// Runs a stored record through every migration it is missing, then checks the result against the current schema
+export const upgradeProductRecord = (raw: unknown): UpgradeResult => {
+  if (!isRecord(raw)) return { status: 'failed', reason: "Not a product record." };
+
+  const { schemaVersion = UNVERSIONED, ...fields } = raw;
+  if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion) || schemaVersion < UNVERSIONED) {
+    return { status: 'failed', reason: `Unrecognised schema version ${JSON.stringify(schemaVersion)}.` };
+  }
+  if (schemaVersion > PRODUCT_SCHEMA_VERSION) return { status: 'newer', version: schemaVersion };
+
+  let record: ProductRecord = fields;
+  for (let version = schemaVersion; version < PRODUCT_SCHEMA_VERSION; version++) {
+    try {
+      record = MIGRATIONS[version](record);
+    } catch (e) {
+      return { status: 'failed', reason: `Upgrade from version ${version} failed: ${e instanceof Error ? e.message : String(e)}` };
+    }
+  }
+
+  const result = validate(productSchema, record, 'product');
+  if (!result.ok) return { status: 'failed', reason: result.warnings.join(' ') };
+  return { status: 'ok', product: result.value, changed: schemaVersion !== PRODUCT_SCHEMA_VERSION || result.warnings.length > 0 };
+};
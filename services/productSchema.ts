@@ -0,0 +1,51 @@
+import { AiExtraction, PendingExtraction, Product, ProductEdit } from '../types';
+import { Validator, arrayOf, boolean, nullable, number, object, oneOf, optional, string, withDefault } from './schemaValidator';
+import { LABEL_TYPES } from './aiSchemas';
+import { EDITABLE_FIELDS } from './productHistory';
+
+const aiExtractionSchema: Validator<AiExtraction> = object<AiExtraction>({
+  name: string({ allowEmpty: true }),
+  expiryRawText: string({ allowEmpty: true }),
+  expiryDate: nullable(string()),
+  expiryLabelType: withDefault(oneOf(LABEL_TYPES), 'unknown'),
+  extractedAt: string(),
+});
+
+const productEditSchema: Validator<ProductEdit> = object<ProductEdit>({
+  field: oneOf(EDITABLE_FIELDS),
+  from: string({ allowEmpty: true }),
+  to: string({ allowEmpty: true }),
+  source: oneOf(['user', 'rescan'] as const),
+  editedAt: string(),
+});
+
+const pendingExtractionSchema: Validator<PendingExtraction> = object<PendingExtraction>({
+  reads: oneOf(['details', 'name-and-expiry', 'expiry'] as const),
+  status: withDefault(oneOf(['pending', 'failed', 'needs-review'] as const), 'pending'),
+  queuedAt: string(),
+  error: optional(string()),
+});
+
+// A product as stored or exported. Only the id, image key and scan time are essential;
+// damaged optional details are dropped with a warning rather than losing the whole item.
+export const productSchema: Validator<Product> = object<Product>({
+  id: string(),
+  name: string({ allowEmpty: true }),
+  expiryDate: withDefault(string({ allowEmpty: true }), ''),
+  expiryRawText: optional(string({ allowEmpty: true })),
+  expiryLabelType: optional(oneOf(LABEL_TYPES)),
+  expiryConfidence: optional(number({ min: 0, max: 1 })),
+  barcode: optional(string()),
+  quantity: optional(number({ min: 0 })),
+  unit: optional(string()),
+  location: optional(string()),
+  price: optional(number({ min: 0 })),
+  nameImageId: optional(string()),
+  expiryImageId: optional(string()),
+  thumbnailImageId: optional(string()),
+  scannedAt: string(),
+  aiExtraction: optional(aiExtractionSchema),
+  editHistory: optional(arrayOf(productEditSchema)),
+  awaitingExpiryScan: optional(boolean()),
+  pendingExtraction: optional(pendingExtractionSchema),
+});
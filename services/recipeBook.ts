@@ -0,0 +1,75 @@
+import { Recipe, SavedRecipe } from '../types';
+import { createChangeNotifier } from './pantryRepository';
+import { loadSavedRecipes, putSavedRecipe, deleteSavedRecipe } from './pantryDb';
+
+const CHANGE_CHANNEL = 'recipe-book-changes';
+
+export interface RecipeBook {
+  list(): Promise<SavedRecipe[]>;
+  save(savedRecipe: SavedRecipe): Promise<SavedRecipe>; // Adds or replaces
+  delete(savedRecipeId: string): Promise<void>;
+  // Calls the listener with the current recipes now and after every change; returns an unsubscribe function
+  watch(listener: (savedRecipes: SavedRecipe[]) => void, onError?: (error: unknown) => void): () => void;
+}
+
+// Favourites first, then most recently saved
+const sortRecipeBook = (savedRecipes: SavedRecipe[]): SavedRecipe[] =>
+  [...savedRecipes].sort((a, b) => Number(b.isFavourite) - Number(a.isFavourite) || b.savedAt.localeCompare(a.savedAt));
+
+// IndexedDB-backed, sharing the pantry database. Changes made in other tabs are picked up via BroadcastChannel.
+export const createBrowserRecipeBook = (): RecipeBook => {
+  const list = async () => sortRecipeBook(await loadSavedRecipes());
+
+  const notifier = createChangeNotifier(list);
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANGE_CHANNEL) : null;
+  if (channel) {
+    channel.onmessage = () => { notifier.notify(); };
+  }
+
+  const changed = async () => {
+    channel?.postMessage('changed');
+    await notifier.notify();
+  };
+
+  return {
+    list,
+
+    save: async (savedRecipe) => {
+      await putSavedRecipe(savedRecipe);
+      await changed();
+      return savedRecipe;
+    },
+
+    delete: async (savedRecipeId) => {
+      await deleteSavedRecipe(savedRecipeId);
+      await changed();
+    },
+
+    watch: notifier.watch,
+  };
+};
+
+export const createSavedRecipe = (recipe: Recipe, savedAt: string = new Date().toISOString()): SavedRecipe => ({
+  id: crypto.randomUUID(),
+  recipe,
+  savedAt,
+  isFavourite: false,
+  cookedAt: [],
+});
+
+// The AI has no stable ids, so a suggestion counts as already saved when its name and ingredients match
+export const findSavedRecipe = (savedRecipes: SavedRecipe[], recipe: Recipe): SavedRecipe | undefined => {
+  const key = (r: Recipe) => `${r.recipeName.trim().toLowerCase()}|${r.ingredients.map(i => i.trim().toLowerCase()).join('|')}`;
+  const wanted = key(recipe);
+  return savedRecipes.find(saved => key(saved.recipe) === wanted);
+};
+
+// Case-insensitive match on name or ingredients; every word of the query has to appear somewhere
+export const searchRecipeBook = (savedRecipes: SavedRecipe[], query: string, favouritesOnly: boolean): SavedRecipe[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return savedRecipes.filter(saved => {
+    if (favouritesOnly && !saved.isFavourite) return false;
+    const haystack = [saved.recipe.recipeName, ...saved.recipe.ingredients].join(' ').toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+};
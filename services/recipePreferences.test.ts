@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { Recipe, RecipePreferences } from '../types';
+import { excludeConflictingRecipes, getDefaultRecipePreferences } from './recipePreferences';
+
+const recipe = (recipeName: string, allergens?: string[]): Recipe => ({
+  recipeName,
+  ingredients: ['Something'],
+  instructions: 'Cook it.',
+  usesPantryItems: [],
+  missingIngredients: [],
+  allergens,
+});
+
+const excluding = (...excludedAllergens: string[]): RecipePreferences => ({ ...getDefaultRecipePreferences(), excludedAllergens });
+
+describe('excludeConflictingRecipes', () => {
+  it('drops recipes tagged with an excluded allergen, matching tags loosely', () => {
+    const result = excludeConflictingRecipes([recipe('Pesto', ['nuts', 'milk']), recipe('Salad', [])], excluding('tree nuts'));
+    expect(result.recipes.map(r => r.recipeName)).toEqual(['Salad']);
+    expect(result.warnings).toEqual(['"Pesto" was left out because it contains nuts.']);
+  });
+
+  it('drops untagged recipes while any allergen is excluded', () => {
+    const result = excludeConflictingRecipes([recipe('Mystery stew'), recipe('Soup', ['celery'])], excluding('peanuts'));
+    expect(result.recipes.map(r => r.recipeName)).toEqual(['Soup']);
+    expect(result.warnings).toEqual(['"Mystery stew" was left out because its allergens weren\'t listed, so it couldn\'t be checked.']);
+  });
+
+  it('keeps every recipe when nothing is excluded', () => {
+    const recipes = [recipe('Mystery stew'), recipe('Pesto', ['tree nuts'])];
+    expect(excludeConflictingRecipes(recipes, getDefaultRecipePreferences())).toEqual({ recipes, warnings: [] });
+  });
+});
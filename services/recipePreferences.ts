@@ -0,0 +1,96 @@
+import { Diet, Recipe, RecipePreferences } from '../types';
+
+const PREFERENCES_KEY = 'recipePreferences';
+
+export const DIETS: { value: Diet; label: string }[] = [
+  { value: 'vegetarian', label: 'Vegetarian' },
+  { value: 'vegan', label: 'Vegan' },
+  { value: 'pescatarian', label: 'Pescatarian' },
+  { value: 'halal', label: 'Halal' },
+  { value: 'kosher', label: 'Kosher' },
+  { value: 'gluten-free', label: 'Gluten-free' },
+  { value: 'dairy-free', label: 'Dairy-free' },
+];
+
+// The 14 allergens food labels must declare in the UK and EU
+export const ALLERGENS = [
+  'celery', 'gluten', 'crustaceans', 'eggs', 'fish', 'lupin', 'milk',
+  'molluscs', 'mustard', 'peanuts', 'tree nuts', 'sesame', 'soy', 'sulphites',
+];
+
+export const CUISINES = [
+  'American', 'Chinese', 'French', 'Indian', 'Italian', 'Japanese',
+  'Korean', 'Mediterranean', 'Mexican', 'Middle Eastern', 'Thai',
+];
+
+export const PREP_TIME_OPTIONS = [15, 30, 45, 60, 90];
+
+export const getDefaultRecipePreferences = (): RecipePreferences => ({
+  diets: [],
+  excludedAllergens: [],
+  cuisines: [],
+  maxPrepMinutes: null,
+  servings: 2,
+});
+
+export const loadRecipePreferences = (): RecipePreferences => {
+  const defaults = getDefaultRecipePreferences();
+  try {
+    const stored = localStorage.getItem(PREFERENCES_KEY);
+    // Merge over defaults so preferences added later get a value for existing users
+    return stored ? { ...defaults, ...JSON.parse(stored) } : defaults;
+  } catch (e) {
+    console.error("Failed to load recipe preferences from localStorage", e);
+    return defaults;
+  }
+};
+
+export const saveRecipePreferences = (preferences: RecipePreferences): void => {
+  try {
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+  } catch (e) {
+    console.error("Failed to save recipe preferences to localStorage", e);
+  }
+};
+
+// One-line summary for headings, e.g. "Vegetarian · no peanuts, tree nuts · 30 min max · serves 4"
+export const describeRecipePreferences = (preferences: RecipePreferences): string => {
+  const parts = [
+    ...preferences.diets.map(diet => DIETS.find(option => option.value === diet)?.label ?? diet),
+    preferences.excludedAllergens.length > 0 ? `no ${preferences.excludedAllergens.join(', ')}` : '',
+    preferences.cuisines.length > 0 ? preferences.cuisines.join('/') : '',
+    preferences.maxPrepMinutes ? `${preferences.maxPrepMinutes} min max` : '',
+    `serves ${preferences.servings}`,
+  ];
+  return parts.filter(Boolean).join(' · ');
+};
+
+// Allergen tags are matched loosely so e.g. a "nuts" tag still catches an excluded "tree nuts"
+const allergenMatches = (tag: string, excluded: string): boolean => {
+  const a = tag.trim().toLowerCase();
+  const b = excluded.trim().toLowerCase();
+  return !!a && !!b && (a.includes(b) || b.includes(a));
+};
+
+// A safety net behind the prompt: recipes the AI tagged with an excluded allergen are dropped, and so are
+// untagged ones while any allergen is excluded, since there is no way to tell they are safe
+export const excludeConflictingRecipes = (
+  recipes: Recipe[],
+  preferences: RecipePreferences
+): { recipes: Recipe[]; warnings: string[] } => {
+  const warnings: string[] = [];
+  const kept = recipes.filter(recipe => {
+    if (preferences.excludedAllergens.length === 0) return true;
+    if (!recipe.allergens) {
+      warnings.push(`"${recipe.recipeName}" was left out because its allergens weren't listed, so it couldn't be checked.`);
+      return false;
+    }
+    const conflicts = recipe.allergens.filter(tag => preferences.excludedAllergens.some(excluded => allergenMatches(tag, excluded)));
+    if (conflicts.length > 0) {
+      warnings.push(`"${recipe.recipeName}" was left out because it contains ${conflicts.join(', ')}.`);
+      return false;
+    }
+    return true;
+  });
+  return { recipes: kept, warnings };
+};
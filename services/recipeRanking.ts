@@ -0,0 +1,66 @@
+import { Product, Recipe } from '../types';
+import { daysUntilExpiry } from './expiryStatus';
+
+export interface RankedRecipe {
+  recipe: Recipe;
+  useItUpItems: string[]; // Pantry items the recipe uses that are expiring soon, soonest first
+  score: number; // Higher saves more near-expiry food
+}
+
+const normalizeName = (name: string): string => name.trim().toLowerCase();
+
+// The pantry product a recipe's "uses" entry refers to: an exact name match first, then one name containing the other.
+// Among same-named products the soonest-expiring one is the one worth using up.
+export const findPantryProduct = (itemName: string, products: Product[], today: Date): Product | undefined => {
+  const wanted = normalizeName(itemName);
+  if (!wanted) return undefined;
+  const exact = products.filter(product => normalizeName(product.name) === wanted);
+  const candidates = exact.length > 0
+    ? exact
+    : products.filter(product => {
+        const name = normalizeName(product.name);
+        return name.includes(wanted) || wanted.includes(name);
+      });
+  return candidates.reduce<Product | undefined>((best, product) => {
+    if (!best) return product;
+    const days = daysUntilExpiry(product.expiryDate, today) ?? Infinity;
+    const bestDays = daysUntilExpiry(best.expiryDate, today) ?? Infinity;
+    return days < bestDays ? product : best;
+  }, undefined);
+};
+
+// expiringSoonDays + 1 for an item expiring today, one less per day after that, 0 outside the window.
+// Past best-before dates still count as today; a passed use-by date counts for nothing, as it shouldn't be eaten.
+export const expiryUrgency = (product: Product, today: Date, expiringSoonDays: number): number => {
+  const days = daysUntilExpiry(product.expiryDate, today);
+  if (days === null) return 0;
+  if (days < 0 && product.expiryLabelType === 'use-by') return 0;
+  return Math.max(0, expiringSoonDays + 1 - Math.max(days, 0));
+};
+
+// Recipes that use up the most near-expiry food come first; ties go to the one with fewer missing ingredients,
+// then keep the AI's order
+export const rankRecipesByExpiry = (
+  recipes: Recipe[],
+  products: Product[],
+  today: Date,
+  expiringSoonDays: number
+): RankedRecipe[] =>
+  recipes
+    .map(recipe => {
+      const usedProducts = new Map<string, Product>();
+      recipe.usesPantryItems.forEach(itemName => {
+        const product = findPantryProduct(itemName, products, today);
+        if (product) usedProducts.set(product.id, product);
+      });
+      const urgent = [...usedProducts.values()]
+        .map(product => ({ product, urgency: expiryUrgency(product, today, expiringSoonDays) }))
+        .filter(({ urgency }) => urgency > 0)
+        .sort((a, b) => b.urgency - a.urgency);
+      return {
+        recipe,
+        useItUpItems: urgent.map(({ product }) => product.name),
+        score: urgent.reduce((total, { urgency }) => total + urgency, 0),
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.recipe.missingIngredients.length - b.recipe.missingIngredients.length);
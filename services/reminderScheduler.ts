@@ -0,0 +1,50 @@
+import { ScheduledReminder } from './expiryReminders';
+
+// Must match the tag public/sw.js listens for
+const REMINDER_SYNC_TAG = 'expiry-reminders';
+const REMINDER_SYNC_INTERVAL_MS = 12 * 60 * 60 * 1000;
+
+// Periodic Background Sync isn't in the DOM typings yet (Chromium only, and only for installed apps)
+interface PeriodicSyncRegistration extends ServiceWorkerRegistration {
+  periodicSync?: { register(tag: string, options: { minInterval: number }): Promise<void> };
+}
+
+// Reminders are shown by the service worker, which only production builds register
+export const notificationsSupported = (): boolean =>
+  import.meta.env.PROD && typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator;
+
+// Production builds only: under the dev server the worker's cache would get in the way of fresh modules.
+// A worker left over from an earlier build on the same origin is removed in dev.
+export const registerServiceWorker = (): void => {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+  if (!import.meta.env.PROD) {
+    navigator.serviceWorker.getRegistrations()
+      .then(registrations => Promise.all(registrations.map(registration => registration.unregister())))
+      .catch(e => console.error("Failed to remove the service worker", e));
+    return;
+  }
+  navigator.serviceWorker.register('./sw.js').catch(e => console.error("Failed to register the service worker", e));
+};
+
+// Has to be called from a click or similar, or browsers refuse to show the prompt
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!notificationsSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+// Hands the full reminder plan to the service worker, replacing the previous one; an empty plan cancels everything.
+// Browsers can't wake a worker at an exact time, so reminders show at the next check after they fall due:
+// whenever the app is opened, and about twice a day in the background where Periodic Background Sync is available.
+export const scheduleReminders = async (reminders: ScheduledReminder[]): Promise<void> => {
+  if (!notificationsSupported()) return;
+  const registration = (await navigator.serviceWorker.ready) as PeriodicSyncRegistration;
+  registration.active?.postMessage({ type: 'schedule-reminders', reminders });
+  if (reminders.length === 0 || !registration.periodicSync) return;
+  try {
+    await registration.periodicSync.register(REMINDER_SYNC_TAG, { minInterval: REMINDER_SYNC_INTERVAL_MS });
+  } catch (e) {
+    // Refused unless the app is installed; reminders still show whenever the app is opened
+    console.info("Background reminder checks are unavailable", e);
+  }
+};
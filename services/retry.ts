@@ -0,0 +1,74 @@
+import { AiCancelledError, AiQuotaError, AiTimeoutError, isAiError } from './aiErrors';
+
+export interface RetryOptions {
+  retries?: number; // Extra attempts after the first one
+  baseDelayMs?: number;
+  maxDelayMs?: number; // Also the longest rate-limit wait worth retrying for
+  timeoutMs?: number; // Per attempt
+  signal?: AbortSignal;
+}
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new AiCancelledError();
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AiCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Runs one attempt with its own AbortSignal, which fires on timeout or when the caller cancels.
+// The attempt is abandoned at that point even if the task ignores the signal.
+const runAttempt = <T>(task: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  const toFailure = (error: unknown) => {
+    if (timedOut) return new AiTimeoutError(timeoutMs, { cause: error });
+    if (signal?.aborted) return new AiCancelledError({ cause: error });
+    return error;
+  };
+
+  return new Promise<T>((resolve, reject) => {
+    controller.signal.addEventListener('abort', () => reject(toFailure(undefined)), { once: true });
+    task(controller.signal).then(resolve, error => reject(toFailure(error)));
+  }).finally(() => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  });
+};
+
+// Retries retryable AiErrors with exponential backoff and jitter; anything else is thrown straight away
+export const withRetry = async <T>(task: (signal: AbortSignal) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 2, baseDelayMs = 500, maxDelayMs = 8000, timeoutMs = 30000, signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await runAttempt(task, timeoutMs, signal);
+    } catch (error) {
+      if (!isAiError(error) || !error.retryable || attempt >= retries) throw error;
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+      if (error instanceof AiQuotaError && error.retryAfterMs !== undefined) {
+        if (error.retryAfterMs > maxDelayMs) throw error;
+        await sleep(Math.max(backoff, error.retryAfterMs), signal);
+      } else {
+        await sleep(backoff, signal);
+      }
+    }
+  }
+};
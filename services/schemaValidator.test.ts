@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { arrayOf, number, object, oneOf, optional, string, validate, withDefault } from './schemaValidator';
+
+const ingredientSchema = object({
+  name: string(),
+  amount: optional(number({ min: 0 })),
+  unit: withDefault(oneOf(['g', 'ml', 'item'] as const), 'item'),
+});
+
+describe('validate', () => {
+  it('accepts clean input without warnings', () => {
+    expect(validate(ingredientSchema, { name: 'Flour', amount: 200, unit: 'g' }, 'ingredient'))
+      .toEqual({ ok: true, value: { name: 'Flour', amount: 200, unit: 'g' }, warnings: [] });
+  });
+
+  it('repairs what it safely can and says so', () => {
+    const result = validate(ingredientSchema, { name: '  Milk ', amount: '250', unit: 'ML' }, 'ingredient');
+    expect(result.ok && result.value).toEqual({ name: 'Milk', amount: 250, unit: 'ml' });
+    expect(result.warnings).toEqual([
+      'ingredient.amount was text, converted to a number.',
+      'ingredient.unit "ML" read as "ml".',
+    ]);
+  });
+
+  it('clamps numbers to their range', () => {
+    const result = validate(number({ min: 0, max: 1 }), 1.5, 'confidence');
+    expect(result).toEqual({ ok: true, value: 1, warnings: ['confidence was 1.5, clamped to 0..1.'] });
+  });
+
+  it('falls back for optional and defaulted fields instead of failing', () => {
+    const result = validate(ingredientSchema, { name: 'Salt', amount: 'a pinch', unit: 'spoon' }, 'ingredient');
+    expect(result.ok && result.value).toEqual({ name: 'Salt', unit: 'item' });
+    expect(result.warnings).toContain('ingredient.amount was invalid and has been ignored.');
+    expect(result.warnings).toContain('ingredient.unit was invalid, using the default.');
+  });
+
+  it('fails the object when a required field is missing', () => {
+    expect(validate(ingredientSchema, { amount: 1 }, 'ingredient'))
+      .toEqual({ ok: false, warnings: ['ingredient.name is missing or invalid.'] });
+  });
+});
+
+describe('arrayOf', () => {
+  it('drops unusable items and keeps the rest', () => {
+    const result = validate(arrayOf(ingredientSchema), [{ name: 'Eggs' }, { name: '' }], 'ingredients');
+    expect(result.ok && result.value).toEqual([{ name: 'Eggs', unit: 'item' }]);
+    expect(result.warnings).toContain('ingredients[1] was unusable and has been left out.');
+  });
+
+  it('wraps a single item in a list', () => {
+    const result = validate(arrayOf(string()), 'Stir well', 'steps');
+    expect(result).toEqual({ ok: true, value: ['Stir well'], warnings: ['steps was a single value, treated as a list of one.'] });
+  });
+
+  it('fails when fewer than the minimum items survive', () => {
+    expect(validate(arrayOf(string(), { min: 1 }), [''], 'steps').ok).toBe(false);
+    expect(validate(arrayOf(string()), undefined, 'steps').ok).toBe(false);
+  });
+});
@@ -0,0 +1,165 @@
+// A small runtime validator for structured data we don't control, such as JSON from an AI model.
+// Validators repair what they safely can (trimming, numbers sent as strings, a lone item instead of
+// a list) and record a warning for each repair; anything unusable is reported as INVALID so the
+// enclosing array can drop it or the enclosing object can fail.
+
+export const INVALID = Symbol('invalid');
+
+export type Validator<T> = (input: unknown, path: string, warnings: string[]) => T | typeof INVALID;
+
+export type ValidationResult<T> =
+  | { ok: true; value: T; warnings: string[] }
+  | { ok: false; warnings: string[] };
+
+const isPlainObject = (input: unknown): input is Record<string, unknown> =>
+  typeof input === 'object' && input !== null && !Array.isArray(input);
+
+export const string = ({ allowEmpty = false }: { allowEmpty?: boolean } = {}): Validator<string> =>
+  (input, path, warnings) => {
+    let value: string;
+    if (typeof input === 'string') {
+      value = input.trim();
+    } else if (typeof input === 'number' && Number.isFinite(input)) {
+      warnings.push(`${path} was a number, converted to text.`);
+      value = String(input);
+    } else {
+      return INVALID;
+    }
+    return value || allowEmpty ? value : INVALID;
+  };
+
+export const number = ({ min = -Infinity, max = Infinity }: { min?: number; max?: number } = {}): Validator<number> =>
+  (input, path, warnings) => {
+    let value: number;
+    if (typeof input === 'number') {
+      value = input;
+    } else if (typeof input === 'string' && input.trim() !== '' && Number.isFinite(Number(input))) {
+      warnings.push(`${path} was text, converted to a number.`);
+      value = Number(input);
+    } else {
+      return INVALID;
+    }
+    if (!Number.isFinite(value)) return INVALID;
+    if (value < min || value > max) {
+      warnings.push(`${path} was ${value}, clamped to ${min}..${max}.`);
+      return Math.min(max, Math.max(min, value));
+    }
+    return value;
+  };
+
+export const boolean = (): Validator<boolean> =>
+  (input) => (typeof input === 'boolean' ? input : INVALID);
+
+export const oneOf = <T extends string>(values: readonly T[]): Validator<T> =>
+  (input, path, warnings) => {
+    if (typeof input !== 'string') return INVALID;
+    if ((values as readonly string[]).includes(input)) return input as T;
+    const match = values.find(value => value.toLowerCase() === input.trim().toLowerCase());
+    if (match) {
+      warnings.push(`${path} "${input}" read as "${match}".`);
+      return match;
+    }
+    return INVALID;
+  };
+
+// Invalid items are dropped with a warning; a single item where a list was expected is wrapped
+export const arrayOf = <T>(item: Validator<T>, { min = 0 }: { min?: number } = {}): Validator<T[]> =>
+  (input, path, warnings) => {
+    let items: unknown[];
+    if (Array.isArray(input)) {
+      items = input;
+    } else if (input !== undefined && input !== null) {
+      const single = item(input, path, []);
+      if (single === INVALID) return INVALID;
+      warnings.push(`${path} was a single value, treated as a list of one.`);
+      items = [input];
+    } else {
+      return INVALID;
+    }
+    const values: T[] = [];
+    items.forEach((entry, index) => {
+      const value = item(entry, `${path}[${index}]`, warnings);
+      if (value === INVALID) {
+        warnings.push(`${path}[${index}] was unusable and has been left out.`);
+      } else {
+        values.push(value);
+      }
+    });
+    return values.length >= min ? values : INVALID;
+  };
+
+// Missing or invalid optional fields become undefined; an invalid one also gets a warning
+export const optional = <T>(validator: Validator<T>): Validator<T | undefined> =>
+  (input, path, warnings) => {
+    if (input === undefined || input === null) return undefined;
+    const value = validator(input, path, warnings);
+    if (value === INVALID) {
+      warnings.push(`${path} was invalid and has been ignored.`);
+      return undefined;
+    }
+    return value;
+  };
+
+// For fields where null is a meaningful value rather than a missing one
+export const nullable = <T>(validator: Validator<T>): Validator<T | null> =>
+  (input, path, warnings) => (input === null ? null : validator(input, path, warnings));
+
+// Falls back to a default when the field is missing or invalid, so one bad field doesn't sink the object
+export const withDefault = <T>(validator: Validator<T>, fallback: T): Validator<T> =>
+  (input, path, warnings) => {
+    if (input === undefined || input === null) {
+      warnings.push(`${path} was missing, using the default.`);
+      return fallback;
+    }
+    const value = validator(input, path, warnings);
+    if (value === INVALID) {
+      warnings.push(`${path} was invalid, using the default.`);
+      return fallback;
+    }
+    return value;
+  };
+
+// Tries each validator in turn, e.g. to accept instructions as either text or a list of steps
+export const anyOf = <T>(...validators: Validator<T>[]): Validator<T> =>
+  (input, path, warnings) => {
+    for (const validator of validators) {
+      const attemptWarnings: string[] = [];
+      const value = validator(input, path, attemptWarnings);
+      if (value !== INVALID) {
+        warnings.push(...attemptWarnings);
+        return value;
+      }
+    }
+    return INVALID;
+  };
+
+export const map = <T, U>(validator: Validator<T>, transform: (value: T) => U): Validator<U> =>
+  (input, path, warnings) => {
+    const value = validator(input, path, warnings);
+    return value === INVALID ? INVALID : transform(value);
+  };
+
+type Shape<T> = { [K in keyof T]-?: Validator<T[K]> };
+
+// Unknown keys are ignored; a required field that is missing or invalid makes the whole object invalid
+export const object = <T>(shape: Shape<T>): Validator<T> =>
+  (input, path, warnings) => {
+    if (!isPlainObject(input)) return INVALID;
+    const result: Partial<T> = {};
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const fieldPath = path ? `${path}.${key}` : key;
+      const value = shape[key](input[key], fieldPath, warnings);
+      if (value === INVALID) {
+        warnings.push(`${fieldPath} is missing or invalid.`);
+        return INVALID;
+      }
+      if (value !== undefined) result[key] = value;
+    }
+    return result as T;
+  };
+
+export const validate = <T>(validator: Validator<T>, input: unknown, rootPath: string): ValidationResult<T> => {
+  const warnings: string[] = [];
+  const value = validator(input, rootPath, warnings);
+  return value === INVALID ? { ok: false, warnings } : { ok: true, value, warnings };
+};
@@ -0,0 +1,39 @@
+import { AppSettings } from '../types';
+import { defaultDateOrderForLocale } from './expiryParser';
+
+const SETTINGS_KEY = 'pantrySettings';
+
+export const getDefaultSettings = (): AppSettings => ({
+  dateOrder: defaultDateOrderForLocale(typeof navigator !== 'undefined' ? navigator.language : 'en-GB'),
+  expiringSoonDays: 3,
+  scanMode: 'two-photo',
+  expiryReminders: false,
+  dailyDigest: false,
+  reminderDaysBefore: 1,
+  cropToFrame: true,
+  enhanceContrast: true,
+  ocrImageSize: 1600,
+  ocrImageQuality: 0.85,
+  thumbnailSize: 320,
+  thumbnailQuality: 0.75,
+});
+
+export const loadSettings = (): AppSettings => {
+  const defaults = getDefaultSettings();
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    // Merge over defaults so settings added later get a value for existing users
+    return stored ? { ...defaults, ...JSON.parse(stored) } : defaults;
+  } catch (e) {
+    console.error("Failed to load settings from localStorage", e);
+    return defaults;
+  }
+};
+
+export const saveSettings = (settings: AppSettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save settings to localStorage", e);
+  }
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { ShoppingListItem } from '../types';
+import { mergeIntoShoppingList, parseIngredientLine, restockEntry } from './shoppingList';
+
+const ADDED_AT = '2025-06-15T10:00:00.000Z';
+
+const item = (overrides: Partial<ShoppingListItem>): ShoppingListItem => ({
+  id: 'existing',
+  name: 'Tomatoes',
+  quantity: 2,
+  unit: 'can',
+  sources: ['Pasta'],
+  addedAt: '2025-06-01T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('parseIngredientLine', () => {
+  it('reads a quantity and a known unit', () => {
+    expect(parseIngredientLine('200g spaghetti', 'Pasta')).toEqual({ name: 'spaghetti', quantity: 200, unit: 'g', source: 'Pasta' });
+    expect(parseIngredientLine('2 cans of chopped tomatoes', 'Pasta'))
+      .toEqual({ name: 'chopped tomatoes', quantity: 2, unit: 'can', source: 'Pasta' });
+    expect(parseIngredientLine('1.5 litres stock', 'Soup')).toMatchObject({ name: 'stock', quantity: 1.5, unit: 'l' });
+  });
+
+  it('keeps an unrecognised unit as part of the name', () => {
+    expect(parseIngredientLine('2 large eggs', 'Cake')).toEqual({ name: 'large eggs', quantity: 2, unit: 'item', source: 'Cake' });
+  });
+
+  it('counts a line without a leading number as one item', () => {
+    expect(parseIngredientLine('  Salt  and   pepper ', 'Cake')).toEqual({ name: 'Salt and pepper', quantity: 1, unit: 'item', source: 'Cake' });
+  });
+});
+
+describe('mergeIntoShoppingList', () => {
+  it('adds to an unticked item with the same name and unit', () => {
+    const merged = mergeIntoShoppingList([item({})], [{ name: ' tomatoes ', quantity: 1, unit: 'can', source: 'Chilli' }], ADDED_AT);
+    expect(merged).toEqual([item({ quantity: 3, sources: ['Pasta', 'Chilli'] })]);
+  });
+
+  it('keeps different units and ticked items on separate lines', () => {
+    const merged = mergeIntoShoppingList(
+      [item({}), item({ id: 'ticked', unit: 'g', quantity: 400, checkedAt: ADDED_AT })],
+      [{ name: 'Tomatoes', quantity: 400, unit: 'g', source: 'Pasta' }],
+      ADDED_AT
+    );
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ name: 'Tomatoes', quantity: 400, unit: 'g', sources: ['Pasta'], addedAt: ADDED_AT });
+    expect(['existing', 'ticked']).not.toContain(merged[0].id);
+  });
+
+  it('merges repeated entries within one call', () => {
+    const merged = mergeIntoShoppingList([], [
+      { name: 'Onion', quantity: 1, unit: 'item', source: 'Soup' },
+      { name: 'onion', quantity: 2, unit: 'item', source: 'Soup' },
+    ], ADDED_AT);
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ name: 'Onion', quantity: 3, sources: ['Soup'] });
+  });
+
+  it('ignores empty names and quantities', () => {
+    expect(mergeIntoShoppingList([], [
+      { name: '  ', quantity: 1, unit: 'item', source: 'Soup' },
+      { name: 'Leeks', quantity: 0, unit: 'item', source: 'Soup' },
+    ], ADDED_AT)).toEqual([]);
+  });
+});
+
+describe('restockEntry', () => {
+  it('asks for a pack of anything weighed or measured', () => {
+    expect(restockEntry('Flour', 'kg', 'Used up')).toEqual({ name: 'Flour', quantity: 1, unit: 'pack', source: 'Used up' });
+    expect(restockEntry('Beans', 'can', 'Used up')).toEqual({ name: 'Beans', quantity: 1, unit: 'can', source: 'Used up' });
+  });
+});
@@ -0,0 +1,150 @@
+import { ShoppingListItem } from '../types';
+import { createChangeNotifier } from './pantryRepository';
+import { loadShoppingListItems, putShoppingListItems, deleteShoppingListItems } from './pantryDb';
+import { MEASURED_UNITS, UNITS } from './pantryInventory';
+
+const CHANGE_CHANNEL = 'shopping-list-changes';
+
+export const USED_UP_SOURCE = 'Used up';
+export const REMOVED_SOURCE = 'Removed from pantry';
+export const MANUAL_SOURCE = 'Added by hand';
+
+export type ShoppingListFormat = 'text' | 'markdown';
+
+// Something that needs buying, before it is merged into the list
+export interface ShoppingListEntry {
+  name: string;
+  quantity: number;
+  unit: string;
+  source: string;
+}
+
+export interface ShoppingList {
+  list(): Promise<ShoppingListItem[]>;
+  // Merges each entry into a matching unticked item, or adds it as a new one
+  add(entries: ShoppingListEntry[]): Promise<void>;
+  update(item: ShoppingListItem): Promise<void>;
+  delete(itemIds: string[]): Promise<void>;
+  // Calls the listener with the current items now and after every change; returns an unsubscribe function
+  watch(listener: (items: ShoppingListItem[]) => void, onError?: (error: unknown) => void): () => void;
+}
+
+const normalizeName = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Still to buy first, then in the order they were added
+const sortShoppingList = (items: ShoppingListItem[]): ShoppingListItem[] =>
+  [...items].sort((a, b) => Number(!!a.checkedAt) - Number(!!b.checkedAt) || a.addedAt.localeCompare(b.addedAt));
+
+// Quantities only add up when the units agree, so "2 cans" and "400 g" of tomatoes stay separate lines.
+// Ticked items are already bought and never absorb new entries.
+export const mergeIntoShoppingList = (
+  items: ShoppingListItem[],
+  entries: ShoppingListEntry[],
+  addedAt: string = new Date().toISOString()
+): ShoppingListItem[] => {
+  const merged = new Map(items.map(item => [item.id, item]));
+  const changed = new Set<string>();
+  entries.forEach(entry => {
+    const name = entry.name.trim();
+    if (!name || entry.quantity <= 0) return;
+    const existing = [...merged.values()].find(item =>
+      !item.checkedAt && item.unit === entry.unit && normalizeName(item.name) === normalizeName(name)
+    );
+    const item: ShoppingListItem = existing
+      ? {
+          ...existing,
+          quantity: Math.round((existing.quantity + entry.quantity) * 1000) / 1000,
+          sources: existing.sources.includes(entry.source) ? existing.sources : [...existing.sources, entry.source],
+        }
+      : { id: crypto.randomUUID(), name, quantity: entry.quantity, unit: entry.unit, sources: [entry.source], addedAt };
+    merged.set(item.id, item);
+    changed.add(item.id);
+  });
+  return [...changed].map(id => merged.get(id)!);
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  items: 'item', cans: 'can', tins: 'can', tin: 'can', bottles: 'bottle', packs: 'pack', packets: 'pack',
+  jars: 'jar', grams: 'g', gram: 'g', kilograms: 'kg', kilogram: 'kg', litres: 'l', litre: 'l', liters: 'l', liter: 'l',
+};
+
+const toUnit = (word: string): string | undefined => {
+  const lower = word.toLowerCase();
+  const unit = UNIT_ALIASES[lower] ?? lower;
+  return UNITS.includes(unit) ? unit : undefined;
+};
+
+// Reads a recipe ingredient like "200g spaghetti", "2 cans of chopped tomatoes" or "Salt".
+// Anything without a leading number is one item; unrecognised units become part of the name ("2 eggs").
+export const parseIngredientLine = (line: string, source: string): ShoppingListEntry => {
+  const text = line.trim().replace(/\s+/g, ' ');
+  const match = text.match(/^(\d+(?:\.\d+)?)\s*([a-zA-Z]+)?\s+(?:of\s+)?(.+)$/);
+  if (!match) return { name: text, quantity: 1, unit: 'item', source };
+  const [, amount, word, rest] = match;
+  const unit = word ? toUnit(word) : undefined;
+  return {
+    name: unit || !word ? rest : `${word} ${rest}`,
+    quantity: parseFloat(amount),
+    unit: unit ?? 'item',
+    source,
+  };
+};
+
+// One more of something that ran out; weights and volumes come back as a pack rather than the exact amount stored
+export const restockEntry = (name: string, unit: string, source: string): ShoppingListEntry => ({
+  name,
+  quantity: 1,
+  unit: MEASURED_UNITS.includes(unit) ? 'pack' : unit,
+  source,
+});
+
+const describeItem = ({ name, quantity, unit }: ShoppingListItem): string =>
+  unit === 'item' ? `${quantity} ${name}` : `${quantity} ${unit} ${name}`;
+
+export const formatShoppingList = (items: ShoppingListItem[], format: ShoppingListFormat): string => {
+  const sorted = sortShoppingList(items);
+  if (format === 'markdown') {
+    const lines = sorted.map(item => `- [${item.checkedAt ? 'x' : ' '}] ${describeItem(item)}${item.sources.length ? ` _(${item.sources.join(', ')})_` : ''}`);
+    return ['# Shopping list', '', ...lines, ''].join('\n');
+  }
+  return ['Shopping list', ...sorted.filter(item => !item.checkedAt).map(item => `- ${describeItem(item)}`), ''].join('\n');
+};
+
+// IndexedDB-backed, sharing the pantry database. Changes made in other tabs are picked up via BroadcastChannel.
+export const createBrowserShoppingList = (): ShoppingList => {
+  const list = async () => sortShoppingList(await loadShoppingListItems());
+
+  const notifier = createChangeNotifier(list);
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANGE_CHANNEL) : null;
+  if (channel) {
+    channel.onmessage = () => { notifier.notify(); };
+  }
+
+  const changed = async () => {
+    channel?.postMessage('changed');
+    await notifier.notify();
+  };
+
+  return {
+    list,
+
+    add: async (entries) => {
+      const updated = mergeIntoShoppingList(await loadShoppingListItems(), entries);
+      if (updated.length === 0) return;
+      await putShoppingListItems(updated);
+      await changed();
+    },
+
+    update: async (item) => {
+      await putShoppingListItems([item]);
+      await changed();
+    },
+
+    delete: async (itemIds) => {
+      await deleteShoppingListItems(itemIds);
+      await changed();
+    },
+
+    watch: notifier.watch,
+  };
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { PantryEvent, RemovalOutcome } from '../types';
+import { buildWasteReport } from './wasteAnalytics';
+
+const TODAY = new Date(2025, 5, 15);
+
+let nextId = 0;
+const event = (outcome: RemovalOutcome, removedAt: Date, overrides: Partial<PantryEvent> = {}): PantryEvent => ({
+  id: `e${nextId++}`,
+  productId: `p${nextId}`,
+  name: 'Milk',
+  outcome,
+  quantity: 1,
+  unit: 'item',
+  expiryDate: '2025-06-01',
+  scannedAt: new Date(removedAt.getTime() - 4 * 24 * 60 * 60 * 1000).toISOString(),
+  removedAt: removedAt.toISOString(),
+  ...overrides,
+});
+
+describe('buildWasteReport', () => {
+  it('reports nothing for an empty log', () => {
+    const report = buildWasteReport([], TODAY);
+    expect(report).toMatchObject({ wasteRate: null, averageDaysToUse: null, moneyLost: 0, pricedDiscards: 0, mostWasted: [] });
+    expect(report.months).toHaveLength(6);
+    expect(report.months[5].key).toBe('2025-06');
+    expect(report.months[0].key).toBe('2025-01');
+  });
+
+  it('counts outcomes overall and per month', () => {
+    const report = buildWasteReport([
+      event('consumed', new Date(2025, 5, 2)),
+      event('discarded', new Date(2025, 5, 3)),
+      event('given-away', new Date(2025, 4, 20)),
+      event('discarded', new Date(2024, 0, 1)), // Older than the months shown, but still in the totals
+    ], TODAY);
+    expect(report.counts).toEqual({ consumed: 1, discarded: 2, 'given-away': 1 });
+    expect(report.wasteRate).toBe(0.5);
+    expect(report.months[5]).toMatchObject({ counts: { consumed: 1, discarded: 1, 'given-away': 0 }, wasteRate: 0.5 });
+    expect(report.months[4]).toMatchObject({ counts: { consumed: 0, discarded: 0, 'given-away': 1 }, wasteRate: 0 });
+    expect(report.months[3].wasteRate).toBeNull();
+  });
+
+  it('averages the days to use up consumed items only', () => {
+    const report = buildWasteReport([
+      event('consumed', new Date(2025, 5, 2)),
+      event('consumed', new Date(2025, 5, 10), { scannedAt: new Date(2025, 5, 8).toISOString() }),
+      event('discarded', new Date(2025, 5, 10), { scannedAt: new Date(2025, 0, 1).toISOString() }),
+    ], TODAY);
+    expect(report.averageDaysToUse).toBe(3);
+  });
+
+  it('adds up the money lost and ranks what is thrown away most', () => {
+    const report = buildWasteReport([
+      event('discarded', new Date(2025, 5, 1), { name: 'Milk', price: 1.25 }),
+      event('discarded', new Date(2025, 5, 2), { name: ' milk ', price: 1.5 }),
+      event('discarded', new Date(2025, 5, 3), { name: 'Bread' }),
+      event('discarded', new Date(2025, 5, 4), { name: 'Lettuce', price: 0.75 }),
+      event('discarded', new Date(2025, 5, 5), { name: '' }),
+    ], TODAY);
+    expect(report.moneyLost).toBe(3.5);
+    expect(report.pricedDiscards).toBe(3);
+    expect(report.mostWasted).toEqual([
+      { name: 'Milk', times: 2, value: 2.75 },
+      { name: 'Lettuce', times: 1, value: 0.75 },
+      { name: 'Bread', times: 1, value: 0 },
+    ]);
+  });
+});
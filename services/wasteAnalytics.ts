@@ -0,0 +1,94 @@
+import { PantryEvent, RemovalOutcome } from '../types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MOST_WASTED_LIMIT = 5;
+
+export interface WasteMonth {
+  key: string; // YYYY-MM
+  label: string;
+  counts: Record<RemovalOutcome, number>;
+  wasteRate: number | null; // null when nothing left the pantry that month
+}
+
+export interface WastedProduct {
+  name: string;
+  times: number;
+  value: number; // Total recorded price of what was thrown away
+}
+
+export interface WasteReport {
+  counts: Record<RemovalOutcome, number>;
+  wasteRate: number | null;
+  months: WasteMonth[]; // Oldest first, ending with the current month
+  mostWasted: WastedProduct[];
+  averageDaysToUse: number | null; // From being added to the pantry to being used up
+  moneyLost: number;
+  pricedDiscards: number; // How many of the thrown away items had a price, so the loss can be shown as partial
+}
+
+const emptyCounts = (): Record<RemovalOutcome, number> => ({ consumed: 0, discarded: 0, 'given-away': 0 });
+
+const total = (counts: Record<RemovalOutcome, number>): number =>
+  counts.consumed + counts.discarded + counts['given-away'];
+
+// Share of everything that left the pantry which was thrown away. Each removed item counts once, whatever its size.
+const wasteRateOf = (counts: Record<RemovalOutcome, number>): number | null =>
+  total(counts) > 0 ? counts.discarded / total(counts) : null;
+
+const monthKey = (date: Date): string => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+const normalizeName = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const buildWasteReport = (events: PantryEvent[], today: Date, monthCount: number = 6): WasteReport => {
+  const counts = emptyCounts();
+  const months = Array.from({ length: monthCount }, (_, i) => {
+    const start = new Date(today.getFullYear(), today.getMonth() - (monthCount - 1 - i), 1);
+    return {
+      key: monthKey(start),
+      label: start.toLocaleDateString(undefined, { month: 'short', year: 'numeric' }),
+      counts: emptyCounts(),
+      wasteRate: null as number | null,
+    };
+  });
+  const wasted = new Map<string, WastedProduct>();
+  const daysToUse: number[] = [];
+  let moneyLost = 0;
+  let pricedDiscards = 0;
+
+  events.forEach(event => {
+    counts[event.outcome] += 1;
+    const removedAt = new Date(event.removedAt);
+    const month = isNaN(removedAt.getTime()) ? undefined : months.find(m => m.key === monthKey(removedAt));
+    if (month) month.counts[event.outcome] += 1;
+
+    if (event.outcome === 'consumed') {
+      const days = (removedAt.getTime() - new Date(event.scannedAt).getTime()) / MS_PER_DAY;
+      if (days >= 0) daysToUse.push(days);
+    }
+
+    if (event.outcome === 'discarded') {
+      if (event.price !== undefined) {
+        moneyLost += event.price;
+        pricedDiscards += 1;
+      }
+      const key = normalizeName(event.name);
+      if (!key) return; // Nameless items can't be told apart
+      const entry = wasted.get(key) ?? { name: event.name.trim(), times: 0, value: 0 };
+      entry.times += 1;
+      entry.value += event.price ?? 0;
+      wasted.set(key, entry);
+    }
+  });
+
+  return {
+    counts,
+    wasteRate: wasteRateOf(counts),
+    months: months.map(month => ({ ...month, wasteRate: wasteRateOf(month.counts) })),
+    mostWasted: [...wasted.values()]
+      .sort((a, b) => b.times - a.times || b.value - a.value || a.name.localeCompare(b.name))
+      .slice(0, MOST_WASTED_LIMIT),
+    averageDaysToUse: daysToUse.length > 0 ? daysToUse.reduce((sum, days) => sum + days, 0) / daysToUse.length : null,
+    moneyLost: Math.round(moneyLost * 100) / 100,
+    pricedDiscards,
+  };
+};
@@ -1,26 +1,236 @@
 
-export interface Product {
+export type ExpiryLabelType = 'use-by' | 'best-before' | 'sell-by' | 'packed-on' | 'unknown';
+
+// Order used to read numeric dates like 03/04/25 when day and month could be swapped
+export type DateOrder = 'DMY' | 'MDY' | 'YMD';
+
+export type ExpiryFormat = 'iso' | 'numeric' | 'month-name' | 'month-year' | 'julian' | 'unrecognized';
+
+export interface ParsedExpiry {
+  rawText: string;
+  isoDate: string | null; // YYYY-MM-DD, null when no date could be read
+  labelType: ExpiryLabelType;
+  format: ExpiryFormat;
+  confidence: number; // 0 to 1
+  alternatives: string[]; // Other plausible ISO dates when the day/month order is ambiguous
+}
+
+export interface AppSettings {
+  dateOrder: DateOrder;
+  expiringSoonDays: number; // Items expiring within this many days count as "expiring soon"
+  scanMode: ScanMode;
+  expiryReminders: boolean; // A notification reminderDaysBefore days before each item expires
+  dailyDigest: boolean; // One morning notification listing everything expiring soon
+  reminderDaysBefore: number;
+  cropToFrame: boolean; // Keep only what is inside the camera's framing guide
+  enhanceContrast: boolean; // Boost contrast on the photo sent to the AI, for small or faded print
+  ocrImageSize: number; // Longest side in pixels of the photo sent to the AI and stored
+  ocrImageQuality: number; // JPEG quality, 0 to 1
+  thumbnailSize: number; // Longest side in pixels of the pantry card thumbnail
+  thumbnailQuality: number;
+}
+
+export type EditableProductField = 'name' | 'expiryDate' | 'expiryLabelType' | 'quantity' | 'unit' | 'location' | 'price';
+
+// 'pantry', 'fridge', 'freezer' or any custom place the user types in
+export type StorageLocation = string;
+
+export interface StockDetails {
+  quantity: number;
+  unit: string;
+  location: StorageLocation;
+  price?: number; // What the quantity in stock cost, when recorded
+}
+
+// Structured result of reading a product's name and date label from one photo
+export interface ExtractedProductDetails {
+  name: string; // Empty when the name could not be read
+  nameConfidence: number; // 0 to 1, as reported by the model
+  expiryText: string; // Empty when no date is visible
+  labelType: ExpiryLabelType;
+}
+
+export type ScanMode = 'two-photo' | 'single-photo';
+
+export type BatchItemStatus = 'queued' | 'extracting' | 'ready' | 'failed';
+
+// One photo captured during a batch session, reviewed before anything is saved
+export interface BatchItem {
   id: string;
+  imageBase64: string;
+  thumbnail: string;
+  status: BatchItemStatus;
+  error?: string;
+  aiName: string;
+  parsedExpiry: ParsedExpiry | null;
+  name: string;
+  expiryDate: string;
+  expiryLabelType: ExpiryLabelType;
+  isExpiryConfirmed: boolean;
+  hasNoExpiryDate: boolean; // Ticked by the user; otherwise a date is needed before saving
+  stock: StockDetails;
+  include: boolean;
+}
+
+// What a barcode was last saved as, used to pre-fill later scans of the same product
+export interface CatalogEntry {
+  barcode: string;
+  name: string;
+  unit: string;
+  location: StorageLocation;
+  timesScanned: number;
+  lastScannedAt: string; // ISO string for date
+}
+
+// A pantry item as sent to recipe generation
+export interface PantryIngredient {
   name: string;
+  quantity: number;
+  unit: string;
   expiryDate: string;
-  nameImageBase64: string; // Full data URL for display
-  expiryImageBase64: string; // Full data URL for display
+  expiryLabelType: ExpiryLabelType;
+  daysUntilExpiry: number | null; // Negative once expired, null when the date is unknown
+}
+
+// What the AI originally read from the photos, kept so corrections can be compared against it
+export interface AiExtraction {
+  name: string;
+  expiryRawText: string;
+  expiryDate: string | null;
+  expiryLabelType: ExpiryLabelType;
+  extractedAt: string; // ISO string for date
+}
+
+export interface ProductEdit {
+  field: EditableProductField;
+  from: string;
+  to: string;
+  source: 'user' | 'rescan'; // 'rescan' when the new value came from re-scanning the label
+  editedAt: string; // ISO string for date
+}
+
+// A scan saved without being read by the AI, e.g. because it was taken offline. It is read automatically
+// once the app is back online.
+export interface PendingExtraction {
+  // What the AI still has to read: both fields from the one photo (kept as the expiry image),
+  // both fields from separate photos, or only the date when the name is already known
+  reads: 'details' | 'name-and-expiry' | 'expiry';
+  // 'failed' needs the details typing in by hand; 'needs-review' was read, but the result needs checking
+  status: 'pending' | 'failed' | 'needs-review';
+  queuedAt: string; // ISO string for date
+  error?: string; // Why reading failed or what needs checking, for the other statuses
+}
+
+export interface Product {
+  id: string;
+  name: string;
+  expiryDate: string; // YYYY-MM-DD, or the raw text for items saved before parsing existed
+  expiryRawText?: string; // Text as read from the label
+  expiryLabelType?: ExpiryLabelType;
+  expiryConfidence?: number;
+  barcode?: string; // EAN/UPC code, when the item was identified by scanning it
+  quantity?: number; // Defaults to 1 for items saved before quantities existed
+  unit?: string; // Defaults to 'item'
+  location?: StorageLocation; // Defaults to 'pantry'
+  price?: number; // What the current quantity cost; scaled down as it is used
+  nameImageId?: string; // Key of the image blob in the images store; absent when the name came from a barcode
+  expiryImageId?: string; // Key of the image blob in the images store; absent for items typed in by hand
+  thumbnailImageId?: string; // Small copy of the first photo for the pantry cards; absent for items saved before thumbnails
   scannedAt: string; // ISO string for date
+  aiExtraction?: AiExtraction;
+  editHistory?: ProductEdit[];
+  awaitingExpiryScan?: boolean; // Bought from the shopping list; cleared once the expiry label has been scanned
+  pendingExtraction?: PendingExtraction;
+}
+
+// A stored product that couldn't be read or upgraded, set aside rather than deleted
+export interface QuarantinedRecord {
+  id: string;
+  record: unknown; // Exactly as it was stored
+  reason: string;
+  quarantinedAt: string; // ISO string for date
+  imageIds?: string[]; // Photos the record refers to; kept until the record is discarded
 }
 
 export interface Recipe {
   recipeName: string;
   ingredients: string[];
   instructions: string;
+  usesPantryItems: string[]; // Pantry item names as they were sent to the AI
+  missingIngredients: string[]; // Needed but not in the pantry
+  prepTimeMinutes?: number;
+  servings?: number;
+  allergens?: string[]; // Names from ALLERGENS that the recipe contains; absent when the AI didn't say
+}
+
+// A recipe kept in the recipe book
+export interface SavedRecipe {
+  id: string;
+  recipe: Recipe;
+  savedAt: string; // ISO string for date
+  isFavourite: boolean;
+  cookedAt: string[]; // ISO strings, oldest first
+}
+
+// Something to buy. Entries with the same name and unit are merged, so one item can come from several places.
+export interface ShoppingListItem {
+  id: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  sources: string[]; // e.g. a recipe name, "Used up" or "Added by hand"
+  addedAt: string; // ISO string for date
+  checkedAt?: string; // ISO string for date, set once bought
+}
+
+// How an item left the pantry
+export type RemovalOutcome = 'consumed' | 'discarded' | 'given-away';
+
+// One entry in the log of items leaving the pantry, kept after the product itself is gone
+export interface PantryEvent {
+  id: string;
+  productId: string;
+  name: string;
+  outcome: RemovalOutcome;
+  quantity: number;
+  unit: string;
+  price?: number; // Value of what left, when the item's price was recorded
+  expiryDate: string;
+  scannedAt: string; // ISO string for date; when the item was added to the pantry
+  removedAt: string; // ISO string for date
+}
+
+export type Diet = 'vegetarian' | 'vegan' | 'pescatarian' | 'halal' | 'kosher' | 'gluten-free' | 'dairy-free';
+
+// Applied to every recipe request
+export interface RecipePreferences {
+  diets: Diet[];
+  excludedAllergens: string[];
+  cuisines: string[]; // Preferred, not required
+  maxPrepMinutes: number | null; // null for no limit
+  servings: number;
 }
 
 export enum ScanStage {
   IDLE = 'IDLE',
+  AWAITING_SINGLE_IMAGE = 'AWAITING_SINGLE_IMAGE',
+  PROCESSING_SINGLE_IMAGE = 'PROCESSING_SINGLE_IMAGE',
   AWAITING_NAME_IMAGE = 'AWAITING_NAME_IMAGE',
   PROCESSING_NAME_IMAGE = 'PROCESSING_NAME_IMAGE',
   AWAITING_EXPIRY_IMAGE = 'AWAITING_EXPIRY_IMAGE',
   PROCESSING_EXPIRY_IMAGE = 'PROCESSING_EXPIRY_IMAGE',
   CONFIRM_DETAILS = 'CONFIRM_DETAILS',
+  BATCH_SESSION = 'BATCH_SESSION',
+  EDIT_DETAILS = 'EDIT_DETAILS',
+  MANUAL_ENTRY = 'MANUAL_ENTRY',
+}
+
+export enum ExpiryStatus {
+  EXPIRED = 'EXPIRED',
+  EXPIRES_TODAY = 'EXPIRES_TODAY',
+  EXPIRING_SOON = 'EXPIRING_SOON',
+  FRESH = 'FRESH',
+  UNKNOWN = 'UNKNOWN',
 }
 
 export interface GroundingChunkWeb {